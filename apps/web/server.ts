@@ -1,8 +1,24 @@
 import * as http from "http";
 import { calculateCase } from "../../src/calc";
-import { demoSchedule } from "../../src/schedule";
-import { CaseInputs as CaseInputsSchema } from "../../src/schema";
-import type { CaseInputs, CaseOutputs } from "../../src/schema";
+import { API_VERSION, MAX_BODY_BYTES, apiError, handleCalculateRequest, type ApiResponse } from "../../src/api";
+import { MAX_BATCH_BODY_BYTES, batchFormatFor, handleBatchRequest } from "../../src/batch";
+import { caseInputsJsonSchema, caseOutputsJsonSchema, openApiDocument } from "../../src/openapi";
+import { defaultScheduleRegistry } from "../../src/registry";
+import { combinedForm, worksheetForms, type FormLine, type WorksheetForm } from "../../src/forms";
+import { INCOME_SOURCE_TYPES } from "../../src/income";
+import { POTENTIAL_INCOME_BASIS_LABELS } from "../../src/potential";
+import { PARENTING_PATTERN_LABELS, countOvernights, overnightCountNote } from "../../src/parentingtime";
+import {
+  AboveScheduleMethod,
+  CaseInputs as CaseInputsSchema,
+  CustodyType,
+  IncomeSourceType,
+  ParentingPattern,
+  ParentingPlan,
+  PayFrequency,
+  PotentialIncomeBasis,
+} from "../../src/schema";
+import type { CaseInputs, CaseInputsEntry, CaseOutputs, MoneyEntry, ParentingTimeOverride } from "../../src/schema";
 
 type FormState = Record<string, string>;
 
@@ -10,6 +26,7 @@ type RenderOptions = {
   form: FormState;
   step: number;
   result?: CaseOutputs | null;
+  inputs?: CaseInputs | null;
   errors?: string[];
 };
 
@@ -84,11 +101,116 @@ function getSteps(form: FormState): StepDefinition[] {
 
 const TOTAL_STEPS = 7;
 
+// Itemized income fields for one parent: one amount per source type, plus an
+// expenses field for the types measured net of expenses.
+function incomeSourceFields(parent: "parent1" | "parent2"): string[] {
+  return IncomeSourceType.options.flatMap((type) => {
+    const key = `${parent}_income_${type}`;
+    return INCOME_SOURCE_TYPES[type].netOfExpenses ? [key, `${key}_expenses`] : [key];
+  });
+}
+
+// Potential-income fields for one parent.  A blank basis means none imputed.
+function potentialIncomeFields(parent: "parent1" | "parent2"): string[] {
+  return ["basis", "amount", "hoursPerWeek", "hourlyWage", "mode", "explanation"].map(
+    (k) => `${parent}_potential_${k}`
+  );
+}
+
+// Family health plan premium fields.  A blank payer means the children's
+// share was entered directly as the health insurance add-on.
+const PREMIUM_FIELDS = [
+  "premium_paidBy",
+  "premium_familyPremium",
+  "premium_selfOnlyPremium",
+  "premium_peopleCovered",
+  "premium_childrenCovered",
+];
+
+// Childcare provider fields: one provider per child, plus the payer, the
+// reasonableness ceiling and an assumed tax-credit percentage.  A blank payer
+// means childcare was entered directly as one figure.
+function childcareFields(form: FormState): string[] {
+  const children = Math.max(1, readInt(form, "numChildrenThisCase", 1));
+  return [
+    "childcare_paidBy",
+    "childcare_ceilingPerChild",
+    "childcare_taxCreditPercent",
+    ...Array.from({ length: children }, (_, i) =>
+      ["provider", "hoursPerWeek", "hourlyRate"].map((k) => `childcare_child${i + 1}_${k}`)
+    ).flat(),
+  ];
+}
+
+// Every money field in the wizard.  Each one has a companion "<name>_frequency"
+// field so the amount can be entered weekly, bi-weekly, and so on.
+const MONEY_FIELDS = [
+  ...["parent1", "parent2"].flatMap((p) =>
+    ["actualMonthly", "preexistingSupportPaid", "alimonyPaid", "alimonyReceived", "socialSecurityDerivativeBenefits"].map(
+      (k) => `${p}_${k}`
+    )
+  ),
+  ...["addOns", "directPay_parent1", "directPay_parent2"].flatMap((g) =>
+    ["childcare", "healthInsurance", "extraordinaryMedical", "cashMedicalIVD", "additionalExpenses"].map((k) => `${g}_${k}`)
+  ),
+  ...incomeSourceFields("parent1"),
+  ...incomeSourceFields("parent2"),
+  "parent1_potential_amount",
+  "parent2_potential_amount",
+  "premium_familyPremium",
+  "premium_selfOnlyPremium",
+];
+
+const FREQUENCY_LABELS: Record<PayFrequency, string> = {
+  MONTHLY: "Monthly",
+  WEEKLY: "Weekly",
+  BIWEEKLY: "Every two weeks",
+  SEMIMONTHLY: "Twice a month",
+  ANNUAL: "Yearly",
+};
+
+function frequencyKey(name: string): string {
+  return `${name}_frequency`;
+}
+
+// Parenting-plan fields: the pattern (blank means the overnights are typed
+// in), its start, who has the first block, the year to count, and a few
+// override rows for holidays and summer.
+const PLAN_OVERRIDE_ROWS = 4;
+const PARENTING_PLAN_FIELDS = [
+  "plan_pattern",
+  "plan_startDate",
+  "plan_firstParent",
+  "plan_year",
+  ...Array.from({ length: PLAN_OVERRIDE_ROWS }, (_, i) =>
+    ["label", "from", "to", "parent", "years"].map((k) => `plan_override${i + 1}_${k}`)
+  ).flat(),
+];
+
+// One overnights field per child, for per-child custody.
+function childOvernightFields(form: FormState): string[] {
+  const children = Math.max(1, readInt(form, "numChildrenThisCase", 1));
+  return Array.from({ length: children }, (_, i) => `overnightsParent1_child${i + 1}`);
+}
+
+// One uninsured-medical-cost field per child in the case.
+function medicalCostFields(form: FormState): string[] {
+  const children = Math.max(1, readInt(form, "numChildrenThisCase", 1));
+  return Array.from({ length: children }, (_, i) => `addOns_uninsuredMedical_child${i + 1}`);
+}
+
+function withFrequencies(fields: string[]): string[] {
+  return fields.flatMap((f) =>
+    MONEY_FIELDS.includes(f) || f.startsWith("addOns_uninsuredMedical_") ? [f, frequencyKey(f)] : [f]
+  );
+}
+
 const defaultForm: FormState = {
   parent1_name: "",
   parent2_name: "",
   courtName: "",
   docketNumber: "",
+  plaintiff: "parent1",
   preparer_name: "",
   preparer_role: "",
   preparer_contact: "",
@@ -96,15 +218,21 @@ const defaultForm: FormState = {
   custodyType: "PRIMARY",
   primaryCustodian: "P1",
   overnightsParent1: "365",
+  aboveScheduleMethod: "",
+  asOfDate: "",
+  selfSupportReserve: "",
+  childrenWithParent1: "",
   parent1_actualMonthly: "0",
   parent1_preexistingSupportPaid: "0",
   parent1_alimonyPaid: "0",
   parent1_alimonyReceived: "0",
+  parent1_socialSecurityDerivativeBenefits: "0",
   parent1_multifamilyChildrenInHome: "0",
   parent2_actualMonthly: "0",
   parent2_preexistingSupportPaid: "0",
   parent2_alimonyPaid: "0",
   parent2_alimonyReceived: "0",
+  parent2_socialSecurityDerivativeBenefits: "0",
   parent2_multifamilyChildrenInHome: "0",
   addOns_childcare: "0",
   addOns_healthInsurance: "0",
@@ -121,6 +249,7 @@ const defaultForm: FormState = {
   directPay_parent2_extraordinaryMedical: "0",
   directPay_parent2_cashMedicalIVD: "0",
   directPay_parent2_additionalExpenses: "0",
+  ...Object.fromEntries(MONEY_FIELDS.map((name) => [frequencyKey(name), "MONTHLY"])),
 };
 
 function escapeHtml(value: string): string {
@@ -139,6 +268,102 @@ function readNumber(form: FormState, key: string, fallback = 0): number {
   return Number.isFinite(num) ? num : fallback;
 }
 
+// Monthly amounts go through as plain numbers; anything else is sent with its
+// frequency so the schema converts it and records the original entry.
+function readMoney(form: FormState, key: string): number | MoneyEntry {
+  const amount = Math.max(0, readNumber(form, key));
+  const frequency = PayFrequency.safeParse(form[frequencyKey(key)]);
+  if (!frequency.success || frequency.data === "MONTHLY") return amount;
+  return { amount, frequency: frequency.data };
+}
+
+// Itemized sources with something entered.  An empty list means the parent's
+// single actual-income figure is used instead.
+function readIncomeSources(form: FormState, parent: "parent1" | "parent2"): NonNullable<CaseInputsEntry["parent1"]["incomeSources"]> {
+  return IncomeSourceType.options.flatMap((type) => {
+    const key = `${parent}_income_${type}`;
+    const amount = readMoney(form, key);
+    const expenses = INCOME_SOURCE_TYPES[type].netOfExpenses ? readMoney(form, `${key}_expenses`) : 0;
+    const entered = (typeof amount === "number" ? amount : amount.amount) > 0;
+    return entered ? [{ type, amount, expenses }] : [];
+  });
+}
+
+function readPotentialIncome(form: FormState, parent: "parent1" | "parent2"): CaseInputsEntry["parent1"]["potentialIncome"] {
+  const basis = PotentialIncomeBasis.safeParse(form[`${parent}_potential_basis`]);
+  if (!basis.success) return undefined;
+  const hours = form[`${parent}_potential_hoursPerWeek`]?.trim();
+  const wage = form[`${parent}_potential_hourlyWage`]?.trim();
+  return {
+    basis: basis.data,
+    ...(basis.data === "HOURS_TIMES_WAGE"
+      ? {
+          hoursPerWeek: hours ? readNumber(form, `${parent}_potential_hoursPerWeek`) : undefined,
+          hourlyWage: wage ? readNumber(form, `${parent}_potential_hourlyWage`) : undefined,
+        }
+      : { amount: readMoney(form, `${parent}_potential_amount`) }),
+    mode: form[`${parent}_potential_mode`] === "ADD" ? "ADD" : "REPLACE",
+    explanation: form[`${parent}_potential_explanation`]?.trim() || undefined,
+  };
+}
+
+function readHealthInsurancePremium(form: FormState): CaseInputsEntry["healthInsurancePremium"] {
+  const paidBy = form.premium_paidBy;
+  if (paidBy !== "P1" && paidBy !== "P2") return undefined;
+  return {
+    paidBy,
+    familyPremium: readMoney(form, "premium_familyPremium"),
+    selfOnlyPremium: form.premium_selfOnlyPremium?.trim() ? readMoney(form, "premium_selfOnlyPremium") : undefined,
+    peopleCovered: Math.max(1, readInt(form, "premium_peopleCovered", 1)),
+    childrenCovered: Math.max(1, readInt(form, "premium_childrenCovered", 1)),
+  };
+}
+
+function readChildcare(form: FormState): CaseInputsEntry["childcare"] {
+  const paidBy = form.childcare_paidBy;
+  if (paidBy !== "P1" && paidBy !== "P2") return undefined;
+  const children = Math.max(1, readInt(form, "numChildrenThisCase", 1));
+  const arrangements = Array.from({ length: children }, (_, i) => {
+    const key = `childcare_child${i + 1}`;
+    return {
+      child: i + 1,
+      provider: form[`${key}_provider`]?.trim() || `Provider for child ${i + 1}`,
+      hoursPerWeek: Math.max(0, readNumber(form, `${key}_hoursPerWeek`)),
+      hourlyRate: Math.max(0, readNumber(form, `${key}_hourlyRate`)),
+    };
+  }).filter((a) => a.hoursPerWeek > 0 && a.hourlyRate > 0);
+  return {
+    paidBy,
+    arrangements,
+    ceilingPerChild: form.childcare_ceilingPerChild?.trim() ? Math.max(0, readNumber(form, "childcare_ceilingPerChild")) : undefined,
+    taxCreditRate: form.childcare_taxCreditPercent?.trim() ? readNumber(form, "childcare_taxCreditPercent") / 100 : undefined,
+  };
+}
+
+function readParentingPlan(form: FormState): CaseInputsEntry["parentingPlan"] {
+  const pattern = ParentingPattern.safeParse(form.plan_pattern);
+  if (!pattern.success) return undefined;
+  const overrides = Array.from({ length: PLAN_OVERRIDE_ROWS }, (_, i) => {
+    const key = `plan_override${i + 1}`;
+    const years = form[`${key}_years`];
+    const override: ParentingTimeOverride = {
+      label: form[`${key}_label`]?.trim() || `Override ${i + 1}`,
+      from: form[`${key}_from`]?.trim() ?? "",
+      to: form[`${key}_to`]?.trim() ?? "",
+      parent: form[`${key}_parent`] === "P2" ? "P2" : "P1",
+      years: years === "EVEN" ? "EVEN" : years === "ODD" ? "ODD" : "ALL",
+    };
+    return override;
+  }).filter((o) => o.from !== "" || o.to !== "");
+  return {
+    pattern: pattern.data,
+    startDate: form.plan_startDate?.trim() ?? "",
+    firstParent: form.plan_firstParent === "P2" ? "P2" : "P1",
+    year: readInt(form, "plan_year", new Date().getFullYear()),
+    overrides,
+  };
+}
+
 function readInt(form: FormState, key: string, fallback = 0): number {
   return Math.trunc(readNumber(form, key, fallback));
 }
@@ -153,53 +378,116 @@ function mergeForm(base: FormState, updates: FormState): FormState {
 
 function buildInputs(form: FormState): { inputs: CaseInputs | null; errors: string[] } {
   const errors: string[] = [];
-  const custodyType = form.custodyType === "SHARED" ? "SHARED" : "PRIMARY";
+  const custody = CustodyType.safeParse(form.custodyType);
+  const custodyType = custody.success ? custody.data : "PRIMARY";
   const primaryCustodian = form.primaryCustodian === "P2" ? "P2" : "P1";
+  const aboveScheduleMethod = AboveScheduleMethod.safeParse(form.aboveScheduleMethod);
+  // A plan counts Parent 1's nights for the whole case, so it is only sent
+  // for PRIMARY and SHARED custody, and then it supplies the count.
+  const parentingPlan = custodyType === "PRIMARY" || custodyType === "SHARED" ? readParentingPlan(form) : undefined;
 
-  const candidate: CaseInputs = {
+  const candidate: CaseInputsEntry = {
     numChildrenThisCase: Math.max(1, readInt(form, "numChildrenThisCase", 1)),
     custodyType,
     primaryCustodian,
-    overnightsParent1: Math.min(365, Math.max(0, readInt(form, "overnightsParent1", 365))),
+    childrenWithParent1: custodyType === "SPLIT" ? readInt(form, "childrenWithParent1") : undefined,
+    overnightsByChild:
+      custodyType === "PER_CHILD"
+        ? childOvernightFields(form).map((f) => Math.min(365, Math.max(0, readInt(form, f, 365))))
+        : undefined,
+    overnightsParent1: parentingPlan ? undefined : Math.min(365, Math.max(0, readInt(form, "overnightsParent1", 365))),
     parent1: {
-      actualMonthly: Math.max(0, readNumber(form, "parent1_actualMonthly")),
-      preexistingSupportPaid: Math.max(0, readNumber(form, "parent1_preexistingSupportPaid")),
-      alimonyPaid: Math.max(0, readNumber(form, "parent1_alimonyPaid")),
-      alimonyReceived: Math.max(0, readNumber(form, "parent1_alimonyReceived")),
+      actualMonthly: readMoney(form, "parent1_actualMonthly"),
+      preexistingSupportPaid: readMoney(form, "parent1_preexistingSupportPaid"),
+      alimonyPaid: readMoney(form, "parent1_alimonyPaid"),
+      alimonyReceived: readMoney(form, "parent1_alimonyReceived"),
+      socialSecurityDerivativeBenefits: readMoney(form, "parent1_socialSecurityDerivativeBenefits"),
       multifamilyChildrenInHome: Math.max(0, readInt(form, "parent1_multifamilyChildrenInHome")),
     },
     parent2: {
-      actualMonthly: Math.max(0, readNumber(form, "parent2_actualMonthly")),
-      preexistingSupportPaid: Math.max(0, readNumber(form, "parent2_preexistingSupportPaid")),
-      alimonyPaid: Math.max(0, readNumber(form, "parent2_alimonyPaid")),
-      alimonyReceived: Math.max(0, readNumber(form, "parent2_alimonyReceived")),
+      actualMonthly: readMoney(form, "parent2_actualMonthly"),
+      preexistingSupportPaid: readMoney(form, "parent2_preexistingSupportPaid"),
+      alimonyPaid: readMoney(form, "parent2_alimonyPaid"),
+      alimonyReceived: readMoney(form, "parent2_alimonyReceived"),
+      socialSecurityDerivativeBenefits: readMoney(form, "parent2_socialSecurityDerivativeBenefits"),
       multifamilyChildrenInHome: Math.max(0, readInt(form, "parent2_multifamilyChildrenInHome")),
     },
     addOns: {
-      childcare: Math.max(0, readNumber(form, "addOns_childcare")),
-      healthInsurance: Math.max(0, readNumber(form, "addOns_healthInsurance")),
-      extraordinaryMedical: Math.max(0, readNumber(form, "addOns_extraordinaryMedical")),
-      cashMedicalIVD: Math.max(0, readNumber(form, "addOns_cashMedicalIVD")),
-      additionalExpenses: Math.max(0, readNumber(form, "addOns_additionalExpenses")),
+      childcare: readMoney(form, "addOns_childcare"),
+      healthInsurance: readMoney(form, "addOns_healthInsurance"),
+      extraordinaryMedical: readMoney(form, "addOns_extraordinaryMedical"),
+      cashMedicalIVD: readMoney(form, "addOns_cashMedicalIVD"),
+      additionalExpenses: readMoney(form, "addOns_additionalExpenses"),
     },
     directPay: {
       parent1: {
-        childcare: Math.max(0, readNumber(form, "directPay_parent1_childcare")),
-        healthInsurance: Math.max(0, readNumber(form, "directPay_parent1_healthInsurance")),
-        extraordinaryMedical: Math.max(0, readNumber(form, "directPay_parent1_extraordinaryMedical")),
-        cashMedicalIVD: Math.max(0, readNumber(form, "directPay_parent1_cashMedicalIVD")),
-        additionalExpenses: Math.max(0, readNumber(form, "directPay_parent1_additionalExpenses")),
+        childcare: readMoney(form, "directPay_parent1_childcare"),
+        healthInsurance: readMoney(form, "directPay_parent1_healthInsurance"),
+        extraordinaryMedical: readMoney(form, "directPay_parent1_extraordinaryMedical"),
+        cashMedicalIVD: readMoney(form, "directPay_parent1_cashMedicalIVD"),
+        additionalExpenses: readMoney(form, "directPay_parent1_additionalExpenses"),
       },
       parent2: {
-        childcare: Math.max(0, readNumber(form, "directPay_parent2_childcare")),
-        healthInsurance: Math.max(0, readNumber(form, "directPay_parent2_healthInsurance")),
-        extraordinaryMedical: Math.max(0, readNumber(form, "directPay_parent2_extraordinaryMedical")),
-        cashMedicalIVD: Math.max(0, readNumber(form, "directPay_parent2_cashMedicalIVD")),
-        additionalExpenses: Math.max(0, readNumber(form, "directPay_parent2_additionalExpenses")),
+        childcare: readMoney(form, "directPay_parent2_childcare"),
+        healthInsurance: readMoney(form, "directPay_parent2_healthInsurance"),
+        extraordinaryMedical: readMoney(form, "directPay_parent2_extraordinaryMedical"),
+        cashMedicalIVD: readMoney(form, "directPay_parent2_cashMedicalIVD"),
+        additionalExpenses: readMoney(form, "directPay_parent2_additionalExpenses"),
       },
     },
+    aboveScheduleMethod: aboveScheduleMethod.success ? aboveScheduleMethod.data : undefined,
+    parentingPlan,
+    asOfDate: form.asOfDate?.trim() || undefined,
+    selfSupportReserve: form.selfSupportReserve?.trim() ? Math.max(0, readNumber(form, "selfSupportReserve")) : undefined,
   };
 
+  // Per-child medical costs replace the single extraordinary medical figure.
+  const medicalFields = medicalCostFields(form);
+  if (medicalFields.some((f) => readNumber(form, f) > 0)) {
+    candidate.addOns = {
+      ...candidate.addOns,
+      extraordinaryMedical: 0,
+      uninsuredMedicalByChild: medicalFields.map((f) => readMoney(form, f)),
+    };
+  }
+
+  // A family premium replaces the health insurance add-on and the payer's
+  // direct payment; both are filled in with the children's share.
+  const healthInsurancePremium = readHealthInsurancePremium(form);
+  if (healthInsurancePremium) {
+    const payer = healthInsurancePremium.paidBy === "P1" ? "parent1" : "parent2";
+    candidate.healthInsurancePremium = healthInsurancePremium;
+    candidate.addOns = { ...candidate.addOns, healthInsurance: 0 };
+    candidate.directPay = {
+      ...candidate.directPay,
+      [payer]: { ...candidate.directPay[payer], healthInsurance: 0 },
+    };
+  }
+
+  // Childcare built up from providers replaces the childcare add-on and the
+  // payer's direct payment in the same way.
+  const childcare = readChildcare(form);
+  if (childcare) {
+    const payer = childcare.paidBy === "P1" ? "parent1" : "parent2";
+    candidate.childcare = childcare;
+    candidate.addOns = { ...candidate.addOns, childcare: 0 };
+    candidate.directPay = {
+      ...candidate.directPay,
+      [payer]: { ...candidate.directPay[payer], childcare: 0 },
+    };
+  }
+
+  // Itemized income replaces the single actual-income figure; a potential
+  // income rides along when the court imputed one.
+  for (const parent of ["parent1", "parent2"] as const) {
+    const incomeSources = readIncomeSources(form, parent);
+    if (incomeSources.length > 0) {
+      candidate[parent] = { ...candidate[parent], actualMonthly: undefined, incomeSources };
+    }
+    const potentialIncome = readPotentialIncome(form, parent);
+    if (potentialIncome) candidate[parent] = { ...candidate[parent], potentialIncome };
+  }
+
   const parsed = CaseInputsSchema.safeParse(candidate);
   if (!parsed.success) {
     for (const issue of parsed.error.issues) {
@@ -218,6 +506,14 @@ function formatCurrency(raw: string): string {
   return num.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2, style: "currency", currency: "USD" });
 }
 
+function formatMoney(form: FormState, key: string): string {
+  const frequency = PayFrequency.safeParse(form[frequencyKey(key)]);
+  const amount = formatCurrency(form[key]);
+  return frequency.success && frequency.data !== "MONTHLY"
+    ? `${amount} (${FREQUENCY_LABELS[frequency.data].toLowerCase()})`
+    : amount;
+}
+
 function renderHiddenInputs(form: FormState, visibleFields: string[]): string {
   const exclude = new Set(visibleFields);
   const entries = Object.entries(form)
@@ -226,8 +522,124 @@ function renderHiddenInputs(form: FormState, visibleFields: string[]): string {
   return entries.join("");
 }
 
-function renderResult(result: CaseOutputs | null | undefined, form: FormState): string {
-  if (!result) {
+function formatFormCell(line: FormLine, value: number | null): string {
+  if (value == null) return "";
+  if (line.kind === "percent") return `${(value * 100).toFixed(2)}%`;
+  if (line.kind === "count") return String(Math.round(value));
+  const amount = formatCurrency(String(value));
+  return line.operator && value !== 0 ? `${line.operator === "-" ? "−" : "±"} ${amount}` : amount;
+}
+
+function renderFormRows(lines: FormLine[], withCombined: boolean): string {
+  return lines
+    .map((line) => {
+      const label = `<strong>${escapeHtml(line.label)}</strong>${line.hint ? `<span class="form-hint">${escapeHtml(line.hint)}</span>` : ""}`;
+      if (line.kind === "heading") {
+        return `<tr class="form-heading"><th scope="row">${escapeHtml(line.line)}</th><td colspan="${withCombined ? 4 : 3}">${label}</td></tr>`;
+      }
+      return `
+          <tr>
+            <th scope="row">${escapeHtml(line.line)}</th>
+            <td>${label}</td>
+            <td class="amount">${formatFormCell(line, line.p1)}</td>
+            <td class="amount">${formatFormCell(line, line.p2)}</td>
+            ${withCombined ? `<td class="amount">${formatFormCell(line, line.combined)}</td>` : ""}
+          </tr>`;
+    })
+    .join("");
+}
+
+function renderFormTable(lines: FormLine[], form: FormState, withCombined: boolean): string {
+  const parent1Name = escapeHtml(getParentDisplayName(form, "parent1"));
+  const parent2Name = escapeHtml(getParentDisplayName(form, "parent2"));
+  return `
+          <table class="form-lines">
+            <thead>
+              <tr>
+                <th scope="col">Line</th>
+                <th scope="col"></th>
+                <th scope="col">Parent 1<span class="form-hint">${parent1Name}</span></th>
+                <th scope="col">Parent 2<span class="form-hint">${parent2Name}</span></th>
+                ${withCombined ? '<th scope="col">Combined</th>' : ""}
+              </tr>
+            </thead>
+            <tbody>${renderFormRows(lines, withCombined)}</tbody>
+          </table>`;
+}
+
+// The caption every court filing carries: court, parties and case number,
+// filled from step 2 of the wizard.  Blank entries print as a rule to write on.
+function renderFormCaption(form: FormState): string {
+  const blank = '<span class="form-blank"></span>';
+  const plaintiff = form.plaintiff === "parent2" ? "parent2" : "parent1";
+  const defendant = plaintiff === "parent1" ? "parent2" : "parent1";
+  const party = (parent: "parent1" | "parent2") => (form[`${parent}_name`]?.trim() ? escapeHtml(form[`${parent}_name`].trim()) : blank);
+  return `
+          <div class="form-caption">
+            <p>In the Circuit Court for ${form.courtName?.trim() ? escapeHtml(form.courtName.trim()) : blank}</p>
+            <div class="form-parties">
+              <p>${party(plaintiff)}<span class="form-hint">Plaintiff</span></p>
+              <p>vs.</p>
+              <p>${party(defendant)}<span class="form-hint">Defendant</span></p>
+              <p>Case No. ${form.docketNumber?.trim() ? escapeHtml(form.docketNumber.trim()) : blank}</p>
+            </div>
+          </div>`;
+}
+
+function renderFormFooter(form: FormState, notes: string[]): string {
+  const preparer = [form.preparer_name, form.preparer_role, form.preparer_contact]
+    .map((v) => v?.trim())
+    .filter(Boolean)
+    .map((v) => escapeHtml(v as string))
+    .join(", ");
+  const date = new Date().toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+  return `
+          <div class="form-footer">
+            <p><strong>Comments, or special adjustments:</strong></p>
+            ${notes.length ? `<ul>${notes.map((n) => `<li>${escapeHtml(n)}</li>`).join("")}</ul>` : '<p class="form-blank wide"></p>'}
+            <p><strong>Prepared by:</strong> ${preparer || '<span class="form-blank"></span>'} <strong>Date:</strong> ${escapeHtml(date)}</p>
+          </div>`;
+}
+
+function renderWorksheetForm(worksheet: WorksheetForm, form: FormState, notes: string[]): string {
+  const worksheetC = worksheet.worksheetC
+    ? `
+          <h4>Worksheet C - Adjustments for Direct Payments Made by Parents</h4>
+          ${renderFormTable(worksheet.worksheetC, form, false)}`
+    : "";
+  return `
+        <article class="official-form">
+          ${renderFormCaption(form)}
+          <h3>${escapeHtml(worksheet.title)}</h3>
+          <p class="form-meta">${escapeHtml(worksheet.rule)} · ${escapeHtml(worksheet.formNumber)}${worksheet.subtitle ? ` · ${escapeHtml(worksheet.subtitle)}` : ""}</p>
+          <p>Number of minor children: <strong>${worksheet.numChildren}</strong></p>
+          ${renderFormTable(worksheet.lines, form, true)}
+          ${worksheetC}
+          ${renderFormFooter(form, notes)}
+        </article>`;
+}
+
+// The filled-in worksheets, laid out like the court forms and ready to print.
+function renderOfficialForms(result: CaseOutputs, inputs: CaseInputs, form: FormState): string {
+  const combined = combinedForm(result);
+  const summary = combined
+    ? `
+        <article class="official-form">
+          ${renderFormCaption(form)}
+          <h3>${escapeHtml(combined.title)}</h3>
+          ${renderFormTable(combined.lines, form, true)}
+          ${renderFormFooter(form, result.notes)}
+        </article>`
+    : "";
+  return `
+      <div class="official-forms">
+        ${worksheetForms(result, inputs).map((w) => renderWorksheetForm(w, form, result.notes)).join("")}
+        ${summary}
+      </div>`;
+}
+
+function renderResult(result: CaseOutputs | null | undefined, inputs: CaseInputs | null | undefined, form: FormState): string {
+  if (!result || !inputs) {
     return "";
   }
 
@@ -247,17 +659,6 @@ function renderResult(result: CaseOutputs | null | undefined, form: FormState):
       })
     : "–";
 
-  const worksheetRows = Object.entries(result.worksheet)
-    .sort(([a], [b]) => a.localeCompare(b))
-    .map(
-      ([key, value]) => `
-          <tr>
-            <th scope="row">${escapeHtml(key)}</th>
-            <td>${formatCurrency(String(value))}</td>
-          </tr>`
-    )
-    .join("");
-
   const notes = result.notes.length
     ? `<ul>${result.notes.map((n) => `<li>${escapeHtml(n)}</li>`).join("")}</ul>`
     : "<p class=\"muted\">No additional notes.</p>";
@@ -266,47 +667,109 @@ function renderResult(result: CaseOutputs | null | undefined, form: FormState):
     ? `<p class="advisory">Advisory: ${escapeHtml(result.advisory)}</p>`
     : "";
 
+  const itemized = (["parent1", "parent2"] as const)
+    .map((parent) => {
+      const itemization = result.incomeItemization[parent];
+      if (!itemization) return "";
+      const rows = itemization.lines
+        .map(
+          (l) =>
+            `<li>${escapeHtml(l.label)}: ${formatCurrency(String(l.counted))}${l.expenses > 0 ? ` (${formatCurrency(String(l.gross))} less ${formatCurrency(String(l.expenses))} expenses)` : ""}${l.included ? "" : " — not counted"}</li>`
+        )
+        .join("");
+      const name = escapeHtml(getParentDisplayName(form, parent));
+      return `
+        <div class="result-card">
+          <h3>${name} income sources</h3>
+          <ul>${rows}</ul>
+          <p>Actual monthly income: <strong>${formatCurrency(String(itemization.includedTotal))}</strong></p>
+        </div>`;
+    })
+    .join("");
+
+  const conversions = result.frequencyConversions.length
+    ? `
+        <div class="result-card">
+          <h3>Converted to monthly</h3>
+          <ul>${result.frequencyConversions
+            .map(
+              (c) =>
+                `<li>${escapeHtml(c.field)}: ${formatCurrency(String(c.amount))} ${escapeHtml(FREQUENCY_LABELS[c.frequency].toLowerCase())} → ${formatCurrency(String(c.monthly))} monthly</li>`
+            )
+            .join("")}</ul>
+        </div>`
+    : "";
+
   return `
     <section class="results">
       <header>
         <h2>Worksheet results (${escapeHtml(result.path)})</h2>
         <p class="summary"><strong>${direction}</strong> — ${amount === "–" ? "Discretionary" : amount}</p>
         ${advisory}
+        ${result.scheduleVersion ? `<p class="muted">Schedule used: ${escapeHtml(result.scheduleVersion)}</p>` : ""}
+        <button type="button" class="secondary" onclick="window.print()">Print worksheets</button>
       </header>
+      ${renderOfficialForms(result, inputs, form)}
       <div class="results-grid">
-        <div class="result-card">
-          <h3>Worksheet detail</h3>
-          <div class="worksheet">
-            <table>
-              <thead>
-                <tr><th scope="col">Line</th><th scope="col">Amount</th></tr>
-              </thead>
-              <tbody>${worksheetRows}</tbody>
-            </table>
-          </div>
-        </div>
         <div class="result-card">
           <h3>Notes</h3>
           ${notes}
         </div>
+        ${itemized}
+        ${conversions}
       </div>
     </section>
   `;
 }
 
+function renderIncomeSourceSummary(form: FormState, parent: "parent1" | "parent2"): string {
+  const rows = IncomeSourceType.options
+    .filter((type) => readNumber(form, `${parent}_income_${type}`) > 0)
+    .map((type) => {
+      const key = `${parent}_income_${type}`;
+      const info = INCOME_SOURCE_TYPES[type];
+      const expenses = info.netOfExpenses && readNumber(form, `${key}_expenses`) > 0
+        ? ` less ${formatMoney(form, `${key}_expenses`)} expenses`
+        : "";
+      return `<li>${escapeHtml(info.label)}: ${formatMoney(form, key)}${expenses}${info.included ? "" : " (not counted)"}</li>`;
+    });
+  return rows.length ? `<dt>Itemized sources</dt><dd><ul>${rows.join("")}</ul></dd>` : "";
+}
+
+function renderPotentialIncomeSummary(form: FormState, parent: "parent1" | "parent2"): string {
+  const basis = PotentialIncomeBasis.safeParse(form[`${parent}_potential_basis`]);
+  if (!basis.success) return "";
+  const figure =
+    basis.data === "HOURS_TIMES_WAGE"
+      ? `${escapeHtml(form[`${parent}_potential_hoursPerWeek`] || "0")} hours a week at ${formatCurrency(form[`${parent}_potential_hourlyWage`])} an hour`
+      : formatMoney(form, `${parent}_potential_amount`);
+  const how = form[`${parent}_potential_mode`] === "ADD" ? "added to actual income" : "in place of actual income";
+  return `<dt>Potential income</dt><dd>${figure} (${escapeHtml(POTENTIAL_INCOME_BASIS_LABELS[basis.data])}), ${how}</dd>`;
+}
+
 function renderDataSummary(form: FormState): string {
   const parent1Name = getParentDisplayName(form, "parent1");
   const parent2Name = getParentDisplayName(form, "parent2");
   const parent1NameEsc = escapeHtml(parent1Name);
   const parent2NameEsc = escapeHtml(parent2Name);
+  const childcare = readChildcare(form);
   const custodyLabel =
     form.custodyType === "SHARED"
       ? "Shared physical custody (each parent has at least 92 overnights)"
-      : "Primary physical custody (one parent has most overnights)";
+      : form.custodyType === "SPLIT"
+        ? "Split custody (each parent has primary custody of at least one child)"
+        : form.custodyType === "PER_CHILD"
+          ? "Different schedules for different children (decided child by child)"
+          : "Primary physical custody (one parent has most overnights)";
   const primaryCustodianName = escapeHtml(
     form.primaryCustodian === "P2" ? parent2Name : parent1Name
   );
-  const parent1Overnights = readInt(form, "overnightsParent1", 365);
+  // A valid parenting plan supplies the overnights; show the count it gives.
+  const plan = ParentingPlan.safeParse(
+    form.custodyType === "PER_CHILD" || form.custodyType === "SPLIT" ? undefined : readParentingPlan(form)
+  );
+  const planCount = plan.success ? countOvernights(plan.data) : null;
+  const parent1Overnights = planCount ? planCount.overnightsParent1 : readInt(form, "overnightsParent1", 365);
   const parent2Overnights = Math.max(0, 365 - parent1Overnights);
   const parent1DirectPayHeading = `${parent1NameEsc} direct pay`;
   const parent2DirectPayHeading = `${parent2NameEsc} direct pay`;
@@ -322,6 +785,7 @@ function renderDataSummary(form: FormState): string {
             <dt>${parent2NameEsc}</dt><dd>${parent2NameEsc === "Parent 2" ? "Enter a name to personalize this label." : "Recorded as Parent 2 on the worksheet."}</dd>
             <dt>Court</dt><dd>${escapeHtml(form.courtName || "—")}</dd>
             <dt>Docket / Case #</dt><dd>${escapeHtml(form.docketNumber || "—")}</dd>
+            <dt>Plaintiff</dt><dd>${form.plaintiff === "parent2" ? parent2NameEsc : parent1NameEsc}</dd>
             <dt>Preparer</dt><dd>${escapeHtml(form.preparer_name || "—")}</dd>
             <dt>Preparer details</dt><dd>${escapeHtml([form.preparer_role, form.preparer_contact].filter(Boolean).join(" • ") || "—")}</dd>
           </dl>
@@ -330,40 +794,81 @@ function renderDataSummary(form: FormState): string {
           <h3>Custody profile</h3>
           <dl>
             <dt>Worksheet path</dt><dd>${escapeHtml(custodyLabel)}</dd>
-            <dt>Primary custodian</dt><dd>${primaryCustodianName}</dd>
+            ${
+              form.custodyType === "SPLIT"
+                ? `<dt>Children living with ${parent1NameEsc}</dt><dd>${escapeHtml(form.childrenWithParent1 ?? "")}</dd>`
+                : `<dt>Primary custodian</dt><dd>${primaryCustodianName}</dd>`
+            }
             <dt>Children in this case</dt><dd>${escapeHtml(form.numChildrenThisCase)}</dd>
-            <dt>${parent1NameEsc} overnights</dt><dd>${parent1Overnights}</dd>
-            <dt>${parent2NameEsc} overnights</dt><dd>${parent2Overnights}</dd>
+            <dt>Schedule as of</dt><dd>${escapeHtml(form.asOfDate || "Today")}</dd>
+            <dt>Self-support reserve</dt><dd>${escapeHtml(form.selfSupportReserve?.trim() || "Not checked")}</dd>
+            ${
+              form.custodyType === "PER_CHILD"
+                ? childOvernightFields(form)
+                    .map((f, i) => `<dt>Child ${i + 1}: ${parent1NameEsc} overnights</dt><dd>${escapeHtml(form[f] ?? "")}</dd>`)
+                    .join("")
+                : `<dt>${parent1NameEsc} overnights</dt><dd>${parent1Overnights}</dd>
+            <dt>${parent2NameEsc} overnights</dt><dd>${parent2Overnights}</dd>`
+            }
+            ${
+              plan.success && planCount
+                ? `<dt>Overnights counted from</dt><dd>${escapeHtml(overnightCountNote(plan.data, planCount))}</dd>`
+                : ""
+            }
           </dl>
         </div>
         <div class="summary-card">
           <h3>${parent1NameEsc} income</h3>
           <dl>
-            <dt>Actual monthly income</dt><dd>${formatCurrency(form.parent1_actualMonthly)}</dd>
-            <dt>Preexisting support paid</dt><dd>${formatCurrency(form.parent1_preexistingSupportPaid)}</dd>
-            <dt>Alimony paid</dt><dd>${formatCurrency(form.parent1_alimonyPaid)}</dd>
-            <dt>Alimony received</dt><dd>${formatCurrency(form.parent1_alimonyReceived)}</dd>
+            <dt>Actual income</dt><dd>${renderIncomeSourceSummary(form, "parent1") ? "Total of itemized sources" : formatMoney(form, "parent1_actualMonthly")}</dd>
+            ${renderIncomeSourceSummary(form, "parent1")}
+            ${renderPotentialIncomeSummary(form, "parent1")}
+            <dt>Preexisting support paid</dt><dd>${formatMoney(form, "parent1_preexistingSupportPaid")}</dd>
+            <dt>Alimony paid</dt><dd>${formatMoney(form, "parent1_alimonyPaid")}</dd>
+            <dt>Alimony received</dt><dd>${formatMoney(form, "parent1_alimonyReceived")}</dd>
+            <dt>Children's Social Security benefits</dt><dd>${formatMoney(form, "parent1_socialSecurityDerivativeBenefits")}</dd>
             <dt>Additional in-home children</dt><dd>${escapeHtml(form.parent1_multifamilyChildrenInHome)}</dd>
           </dl>
         </div>
         <div class="summary-card">
           <h3>${parent2NameEsc} income</h3>
           <dl>
-            <dt>Actual monthly income</dt><dd>${formatCurrency(form.parent2_actualMonthly)}</dd>
-            <dt>Preexisting support paid</dt><dd>${formatCurrency(form.parent2_preexistingSupportPaid)}</dd>
-            <dt>Alimony paid</dt><dd>${formatCurrency(form.parent2_alimonyPaid)}</dd>
-            <dt>Alimony received</dt><dd>${formatCurrency(form.parent2_alimonyReceived)}</dd>
+            <dt>Actual income</dt><dd>${renderIncomeSourceSummary(form, "parent2") ? "Total of itemized sources" : formatMoney(form, "parent2_actualMonthly")}</dd>
+            ${renderIncomeSourceSummary(form, "parent2")}
+            ${renderPotentialIncomeSummary(form, "parent2")}
+            <dt>Preexisting support paid</dt><dd>${formatMoney(form, "parent2_preexistingSupportPaid")}</dd>
+            <dt>Alimony paid</dt><dd>${formatMoney(form, "parent2_alimonyPaid")}</dd>
+            <dt>Alimony received</dt><dd>${formatMoney(form, "parent2_alimonyReceived")}</dd>
+            <dt>Children's Social Security benefits</dt><dd>${formatMoney(form, "parent2_socialSecurityDerivativeBenefits")}</dd>
             <dt>Additional in-home children</dt><dd>${escapeHtml(form.parent2_multifamilyChildrenInHome)}</dd>
           </dl>
         </div>
         <div class="summary-card">
           <h3>Add-on expenses</h3>
           <dl>
-            <dt>Childcare</dt><dd>${formatCurrency(form.addOns_childcare)}</dd>
-            <dt>Health insurance</dt><dd>${formatCurrency(form.addOns_healthInsurance)}</dd>
-            <dt>Extraordinary medical</dt><dd>${formatCurrency(form.addOns_extraordinaryMedical)}</dd>
-            <dt>Cash medical (IV-D)</dt><dd>${formatCurrency(form.addOns_cashMedicalIVD)}</dd>
-            <dt>Additional expenses</dt><dd>${formatCurrency(form.addOns_additionalExpenses)}</dd>
+            <dt>Childcare</dt><dd>${
+              childcare
+                ? `By provider: ${
+                    childcare.arrangements
+                      .map((a) => `child ${a.child}, ${escapeHtml(a.provider)}, ${a.hoursPerWeek} hours a week at ${formatCurrency(String(a.hourlyRate))}`)
+                      .join("; ") || "none entered"
+                  }; paid by ${childcare.paidBy === "P1" ? parent1NameEsc : parent2NameEsc}`
+                : formatMoney(form, "addOns_childcare")
+            }</dd>
+            <dt>Health insurance</dt><dd>${
+              readHealthInsurancePremium(form)
+                ? `Family premium ${formatMoney(form, "premium_familyPremium")}${
+                    form.premium_selfOnlyPremium?.trim() ? `, self-only ${formatMoney(form, "premium_selfOnlyPremium")}` : ""
+                  }; ${escapeHtml(form.premium_peopleCovered ?? "")} covered, ${escapeHtml(form.premium_childrenCovered ?? "")} children in this case; paid by ${escapeHtml(getParentDisplayName(form, form.premium_paidBy === "P1" ? "parent1" : "parent2"))}`
+                : formatMoney(form, "addOns_healthInsurance")
+            }</dd>
+            <dt>Extraordinary medical</dt><dd>${
+              medicalCostFields(form).some((f) => readNumber(form, f) > 0)
+                ? `Uninsured costs by child: ${medicalCostFields(form).map((f) => formatMoney(form, f)).join(", ")}`
+                : formatMoney(form, "addOns_extraordinaryMedical")
+            }</dd>
+            <dt>Cash medical (IV-D)</dt><dd>${formatMoney(form, "addOns_cashMedicalIVD")}</dd>
+            <dt>Additional expenses</dt><dd>${formatMoney(form, "addOns_additionalExpenses")}</dd>
           </dl>
         </div>
         <div class="summary-card">
@@ -371,20 +876,20 @@ function renderDataSummary(form: FormState): string {
           <dl>
             <dt>${parent1DirectPayHeading}</dt><dd>
               <ul>
-                <li>Childcare: ${formatCurrency(form.directPay_parent1_childcare)}</li>
-                <li>Health insurance: ${formatCurrency(form.directPay_parent1_healthInsurance)}</li>
-                <li>Extraordinary medical: ${formatCurrency(form.directPay_parent1_extraordinaryMedical)}</li>
-                <li>Cash medical (IV-D): ${formatCurrency(form.directPay_parent1_cashMedicalIVD)}</li>
-                <li>Additional expenses: ${formatCurrency(form.directPay_parent1_additionalExpenses)}</li>
+                <li>Childcare: ${formatMoney(form, "directPay_parent1_childcare")}</li>
+                <li>Health insurance: ${formatMoney(form, "directPay_parent1_healthInsurance")}</li>
+                <li>Extraordinary medical: ${formatMoney(form, "directPay_parent1_extraordinaryMedical")}</li>
+                <li>Cash medical (IV-D): ${formatMoney(form, "directPay_parent1_cashMedicalIVD")}</li>
+                <li>Additional expenses: ${formatMoney(form, "directPay_parent1_additionalExpenses")}</li>
               </ul>
             </dd>
             <dt>${parent2DirectPayHeading}</dt><dd>
               <ul>
-                <li>Childcare: ${formatCurrency(form.directPay_parent2_childcare)}</li>
-                <li>Health insurance: ${formatCurrency(form.directPay_parent2_healthInsurance)}</li>
-                <li>Extraordinary medical: ${formatCurrency(form.directPay_parent2_extraordinaryMedical)}</li>
-                <li>Cash medical (IV-D): ${formatCurrency(form.directPay_parent2_cashMedicalIVD)}</li>
-                <li>Additional expenses: ${formatCurrency(form.directPay_parent2_additionalExpenses)}</li>
+                <li>Childcare: ${formatMoney(form, "directPay_parent2_childcare")}</li>
+                <li>Health insurance: ${formatMoney(form, "directPay_parent2_healthInsurance")}</li>
+                <li>Extraordinary medical: ${formatMoney(form, "directPay_parent2_extraordinaryMedical")}</li>
+                <li>Cash medical (IV-D): ${formatMoney(form, "directPay_parent2_cashMedicalIVD")}</li>
+                <li>Additional expenses: ${formatMoney(form, "directPay_parent2_additionalExpenses")}</li>
               </ul>
             </dd>
           </dl>
@@ -405,8 +910,61 @@ type StepHelpers = {
   selected: (name: string, value: string) => string;
 };
 
-function renderStepContent(step: number, helpers: StepHelpers, result: CaseOutputs | null | undefined, form: FormState): StepTemplate {
+function renderStepContent(
+  step: number,
+  helpers: StepHelpers,
+  result: CaseOutputs | null | undefined,
+  inputs: CaseInputs | null | undefined,
+  form: FormState
+): StepTemplate {
   const { field, checked, selected } = helpers;
+  const money = (label: string, name: string) => `
+              <label>${label}
+                <span class="money">
+                  <input type="number" step="0.01" name="${name}" value="${field(name)}" />
+                  <select name="${frequencyKey(name)}" aria-label="${label} frequency">
+                    ${PayFrequency.options.map((f) => `<option value="${f}" ${selected(frequencyKey(name), f)}>${FREQUENCY_LABELS[f]}</option>`).join("")}
+                  </select>
+                </span>
+              </label>`;
+  const potentialIncome = (parent: "parent1" | "parent2") => `
+            <details class="itemize" ${form[`${parent}_potential_basis`] ? "open" : ""}>
+              <summary>Potential income (voluntary impoverishment)</summary>
+              <p class="muted">Use this only when the court has found this parent voluntarily impoverished. Record the basis for the figure; for hours times wage we work out the monthly amount as hours × wage × 52 ÷ 12.</p>
+              <div class="grid three">
+                <label>Basis
+                  <select name="${parent}_potential_basis">
+                    <option value="" ${selected(`${parent}_potential_basis`, "")}>None imputed</option>
+                    ${PotentialIncomeBasis.options.map((b) => `<option value="${b}" ${selected(`${parent}_potential_basis`, b)}>${escapeHtml(POTENTIAL_INCOME_BASIS_LABELS[b])}</option>`).join("")}
+                  </select>
+                </label>
+                ${money("Potential income", `${parent}_potential_amount`)}
+                <label>Hours per week<input type="number" step="0.5" min="0" name="${parent}_potential_hoursPerWeek" value="${field(`${parent}_potential_hoursPerWeek`)}" /></label>
+                <label>Hourly wage<input type="number" step="0.01" min="0" name="${parent}_potential_hourlyWage" value="${field(`${parent}_potential_hourlyWage`)}" /></label>
+                <label>Use it
+                  <select name="${parent}_potential_mode">
+                    <option value="REPLACE" ${selected(`${parent}_potential_mode`, "REPLACE")}>In place of actual income</option>
+                    <option value="ADD" ${selected(`${parent}_potential_mode`, "ADD")}>On top of actual income</option>
+                  </select>
+                </label>
+                <label>Explanation<input type="text" name="${parent}_potential_explanation" value="${field(`${parent}_potential_explanation`)}" /></label>
+              </div>
+            </details>`;
+  const itemizeIncome = (parent: "parent1" | "parent2") => `
+            <details class="itemize" ${incomeSourceFields(parent).some((f) => readNumber(form, f) > 0) ? "open" : ""}>
+              <summary>Itemize income by source</summary>
+              <p class="muted">List each source separately instead of one actual-income figure. When any source is filled in, the total of the counted sources replaces the actual income above. Self-employment and rental income are gross receipts less ordinary and necessary expenses. Means-tested public assistance (such as TCA, SSI or SNAP) and child support received for other children are recorded but not counted.</p>
+              <div class="grid three">
+                ${IncomeSourceType.options
+                  .map((type) => {
+                    const key = `${parent}_income_${type}`;
+                    const info = INCOME_SOURCE_TYPES[type];
+                    const label = info.included ? info.label : `${info.label} (not counted)`;
+                    return money(escapeHtml(label), key) + (info.netOfExpenses ? money(`${escapeHtml(info.label)} expenses`, `${key}_expenses`) : "");
+                  })
+                  .join("")}
+              </div>
+            </details>`;
   const parent1Name = getParentDisplayName(form, "parent1");
   const parent2Name = getParentDisplayName(form, "parent2");
   const parent1NameEsc = escapeHtml(parent1Name);
@@ -443,6 +1001,7 @@ function renderStepContent(step: number, helpers: StepHelpers, result: CaseOutpu
           "parent2_name",
           "courtName",
           "docketNumber",
+          "plaintiff",
           "preparer_name",
           "preparer_role",
           "preparer_contact",
@@ -461,6 +1020,13 @@ function renderStepContent(step: number, helpers: StepHelpers, result: CaseOutpu
             <div class="grid two">
               <label>Court name<input type="text" name="courtName" value="${field("courtName")}" /></label>
               <label>Docket / case number<input type="text" name="docketNumber" value="${field("docketNumber")}" /></label>
+              <label>
+                Plaintiff on the case caption
+                <select name="plaintiff">
+                  <option value="parent1" ${selected("plaintiff", "parent1")}>Parent or caregiver 1</option>
+                  <option value="parent2" ${selected("plaintiff", "parent2")}>Parent or caregiver 2</option>
+                </select>
+              </label>
             </div>
             <div class="grid three">
               <label>Preparer name<input type="text" name="preparer_name" value="${field("preparer_name")}" /></label>
@@ -473,7 +1039,18 @@ function renderStepContent(step: number, helpers: StepHelpers, result: CaseOutpu
       };
     case 3:
       return {
-        visibleFields: ["numChildrenThisCase", "custodyType", "primaryCustodian", "overnightsParent1"],
+        visibleFields: [
+          "numChildrenThisCase",
+          "custodyType",
+          "primaryCustodian",
+          "childrenWithParent1",
+          "overnightsParent1",
+          ...childOvernightFields(form),
+          ...PARENTING_PLAN_FIELDS,
+          "aboveScheduleMethod",
+          "asOfDate",
+          "selfSupportReserve",
+        ],
         content: `
           <section class="step">
             <h2>Custody & worksheet selection</h2>
@@ -490,11 +1067,55 @@ function renderStepContent(step: number, helpers: StepHelpers, result: CaseOutpu
               </label>
             </div>
             <p id="overnights-help" class="muted">Enter the count of nights ${parent1NameEsc} has the children. The other parent automatically receives the remaining nights (365 minus this number).</p>
+            <details class="itemize" ${form.plan_pattern ? "open" : ""}>
+              <summary>Count overnights from a parenting plan</summary>
+              <p class="muted">Pick the plan's rotation and we count ${parent1NameEsc}'s nights for the year, night by night, in place of the number above. The cycle starts on the start date, which must be a Monday except for alternating weeks. In a leap year the count is scaled to 365 nights. Overrides give a range of nights each year (MM-DD to MM-DD) to one parent, such as a holiday or part of the summer; later rows win over earlier ones.</p>
+              <div class="grid two">
+                <label>Rotation
+                  <select name="plan_pattern">
+                    <option value="" ${selected("plan_pattern", "")}>Not used</option>
+                    ${ParentingPattern.options.map((p) => `<option value="${p}" ${selected("plan_pattern", p)}>${escapeHtml(PARENTING_PATTERN_LABELS[p])}</option>`).join("")}
+                  </select>
+                </label>
+                <label>First block (or weekends and midweek) with
+                  <select name="plan_firstParent">
+                    <option value="P1" ${selected("plan_firstParent", "P1")}>${parent1NameEsc}</option>
+                    <option value="P2" ${selected("plan_firstParent", "P2")}>${parent2NameEsc}</option>
+                  </select>
+                </label>
+                <label>Cycle start date<input type="date" name="plan_startDate" value="${field("plan_startDate")}" /></label>
+                <label>Year to count<input type="number" name="plan_year" min="1900" max="2200" value="${field("plan_year")}" /></label>
+              </div>
+              ${Array.from({ length: PLAN_OVERRIDE_ROWS }, (_, i) => {
+                const key = `plan_override${i + 1}`;
+                return `
+              <div class="grid three">
+                <label>Override ${i + 1}<input type="text" name="${key}_label" placeholder="Summer, Thanksgiving…" value="${field(`${key}_label`)}" /></label>
+                <label>From (MM-DD)<input type="text" name="${key}_from" placeholder="07-01" value="${field(`${key}_from`)}" /></label>
+                <label>To (MM-DD)<input type="text" name="${key}_to" placeholder="07-31" value="${field(`${key}_to`)}" /></label>
+                <label>With
+                  <select name="${key}_parent">
+                    <option value="P1" ${selected(`${key}_parent`, "P1")}>${parent1NameEsc}</option>
+                    <option value="P2" ${selected(`${key}_parent`, "P2")}>${parent2NameEsc}</option>
+                  </select>
+                </label>
+                <label>Years
+                  <select name="${key}_years">
+                    <option value="ALL" ${selected(`${key}_years`, "ALL")}>Every year</option>
+                    <option value="EVEN" ${selected(`${key}_years`, "EVEN")}>Even years</option>
+                    <option value="ODD" ${selected(`${key}_years`, "ODD")}>Odd years</option>
+                  </select>
+                </label>
+              </div>`;
+              }).join("")}
+            </details>
             <div class="grid two">
               <fieldset class="choice-group">
                 <legend>Custody type</legend>
                 <label><input type="radio" name="custodyType" value="PRIMARY" ${checked("custodyType", "PRIMARY")} /> Primary custody (Worksheet A) — choose this if one parent has fewer than 92 overnights.</label>
                 <label><input type="radio" name="custodyType" value="SHARED" ${checked("custodyType", "SHARED")} /> Shared custody (Worksheet B) — choose this if both parents have at least 92 overnights.</label>
+                <label><input type="radio" name="custodyType" value="SPLIT" ${checked("custodyType", "SPLIT")} /> Split custody (Worksheet A for each household) — choose this if each parent has primary custody of at least one of the children.</label>
+                <label><input type="radio" name="custodyType" value="PER_CHILD" ${checked("custodyType", "PER_CHILD")} /> Different schedules for different children — enter each child's overnights below and we decide shared or primary custody child by child.</label>
               </fieldset>
               <label>
                 Parent with most overnights
@@ -505,75 +1126,123 @@ function renderStepContent(step: number, helpers: StepHelpers, result: CaseOutpu
               </label>
             </div>
             <p class="muted">If shared custody is selected, the overnights entry is used to calculate the split.</p>
+            <label>
+              Children living with ${parent1NameEsc} (split custody only)
+              <input type="number" name="childrenWithParent1" min="1" aria-describedby="split-help" value="${field("childrenWithParent1")}" />
+            </label>
+            <div class="grid three">
+              ${childOvernightFields(form)
+                .map((f, i) => `<label>Child ${i + 1}: ${parent1NameEsc} overnights (per-child schedules only)<input type="number" name="${f}" min="0" max="365" value="${field(f)}" /></label>`)
+                .join("")}
+            </div>
+            <p class="muted">With different schedules, children where each parent has at least 92 nights are grouped for Worksheet B; the rest go on Worksheet A with the parent who has them more. Each group is calculated with its share of the add-ons and the amounts are added into one order.</p>
+            <p id="split-help" class="muted">For split custody, the rest of the children live with ${parent2NameEsc}. We run Worksheet A for each household and net the two amounts; add-ons and direct payments are shared between the households by number of children.</p>
+            <label>
+              If combined income is above the schedule
+              <select name="aboveScheduleMethod" aria-describedby="above-schedule-help">
+                <option value="" ${selected("aboveScheduleMethod", "")}>Leave to court discretion (no amount)</option>
+                <option value="CAP_AT_TOP_ROW" ${selected("aboveScheduleMethod", "CAP_AT_TOP_ROW")}>Cap at the top row</option>
+                <option value="TOP_ROW_PERCENTAGE" ${selected("aboveScheduleMethod", "TOP_ROW_PERCENTAGE")}>Extend the top-row percentage</option>
+                <option value="MARGINAL_RATE" ${selected("aboveScheduleMethod", "MARGINAL_RATE")}>Extend the marginal rate of the last band</option>
+              </select>
+            </label>
+            <p id="above-schedule-help" class="muted">The schedule stops at $30,000 combined monthly income. Above that the court decides; these options only produce an illustrative starting point.</p>
+            <label>
+              Calculate as of
+              <input type="date" name="asOfDate" aria-describedby="as-of-help" value="${field("asOfDate")}" />
+            </label>
+            <p id="as-of-help" class="muted">Leave blank to use today's schedule. For a modification spanning a schedule change, enter the date the new amount would start.</p>
+            <label>
+              Self-support reserve (monthly)
+              <input type="number" name="selfSupportReserve" min="0" step="0.01" aria-describedby="reserve-help" value="${field("selfSupportReserve")}" />
+            </label>
+            <p id="reserve-help" class="muted">Optional. Each parent must keep at least this much of their adjusted actual income after paying support; the paying parent's amount is reduced if it would leave them less. Leave blank to skip the check.</p>
           </section>
         `,
       };
     case 4:
       return {
-        visibleFields: [
+        visibleFields: withFrequencies([
           "parent1_actualMonthly",
           "parent1_preexistingSupportPaid",
           "parent1_alimonyPaid",
           "parent1_alimonyReceived",
+          "parent1_socialSecurityDerivativeBenefits",
           "parent1_multifamilyChildrenInHome",
-        ],
+          ...incomeSourceFields("parent1"),
+          ...potentialIncomeFields("parent1"),
+        ]),
         content: `
           <section class="step">
             <h2>${parent1NameEsc} income and adjustments</h2>
-            <p>Enter the monthly figures for ${parent1NameEsc}. Leave a field blank or zero if it does not apply. Use whole dollars or cents as shown on pay stubs or court orders.</p>
+            <p>Enter the figures for ${parent1NameEsc} and choose how often each one is paid; we convert everything to monthly (weekly × 52 ÷ 12, every two weeks × 26 ÷ 12). Leave a field blank or zero if it does not apply. Use whole dollars or cents as shown on pay stubs or court orders.</p>
             <ul class="muted">
-              <li><strong>Actual monthly income</strong>: Regular wages, salary, or self-employment income before taxes.</li>
+              <li><strong>Actual income</strong>: Regular wages, salary, or self-employment income before taxes.</li>
               <li><strong>Preexisting support paid</strong>: Court-ordered child support from ${parent1Possessive} other cases.</li>
               <li><strong>Alimony paid / received</strong>: Monthly spousal support ${parent1Possessive} household pays or receives.</li>
+              <li><strong>Children's Social Security benefits</strong>: Dependent benefits the children receive because of ${parent1Possessive} retirement or disability. They count as ${parent1Possessive} income and are credited against what ${parent1NameEsc} owes.</li>
               <li><strong>Additional in-home children</strong>: Number of other children living in ${parent1Possessive} home full time.</li>
             </ul>
             <div class="grid three">
-              <label>Actual monthly income<input type="number" step="0.01" name="parent1_actualMonthly" value="${field("parent1_actualMonthly")}" /></label>
-              <label>Preexisting support paid<input type="number" step="0.01" name="parent1_preexistingSupportPaid" value="${field("parent1_preexistingSupportPaid")}" /></label>
-              <label>Alimony paid<input type="number" step="0.01" name="parent1_alimonyPaid" value="${field("parent1_alimonyPaid")}" /></label>
-              <label>Alimony received<input type="number" step="0.01" name="parent1_alimonyReceived" value="${field("parent1_alimonyReceived")}" /></label>
+              ${money("Actual income", "parent1_actualMonthly")}
+              ${money("Preexisting support paid", "parent1_preexistingSupportPaid")}
+              ${money("Alimony paid", "parent1_alimonyPaid")}
+              ${money("Alimony received", "parent1_alimonyReceived")}
+              ${money("Children's Social Security benefits", "parent1_socialSecurityDerivativeBenefits")}
               <label>Additional in-home children<input type="number" min="0" step="1" name="parent1_multifamilyChildrenInHome" value="${field("parent1_multifamilyChildrenInHome")}" /></label>
             </div>
+            ${itemizeIncome("parent1")}
+            ${potentialIncome("parent1")}
           </section>
         `,
       };
     case 5:
       return {
-        visibleFields: [
+        visibleFields: withFrequencies([
           "parent2_actualMonthly",
           "parent2_preexistingSupportPaid",
           "parent2_alimonyPaid",
           "parent2_alimonyReceived",
+          "parent2_socialSecurityDerivativeBenefits",
           "parent2_multifamilyChildrenInHome",
-        ],
+          ...incomeSourceFields("parent2"),
+          ...potentialIncomeFields("parent2"),
+        ]),
         content: `
           <section class="step">
             <h2>${parent2NameEsc} income and adjustments</h2>
-            <p>Enter the monthly figures for ${parent2NameEsc}. Leave a field blank or zero if it does not apply. Matching documentation for both parents keeps the calculation consistent.</p>
+            <p>Enter the figures for ${parent2NameEsc} and choose how often each one is paid; we convert everything to monthly. Leave a field blank or zero if it does not apply. Matching documentation for both parents keeps the calculation consistent.</p>
             <ul class="muted">
-              <li><strong>Actual monthly income</strong>: Regular wages, salary, or self-employment income before taxes.</li>
+              <li><strong>Actual income</strong>: Regular wages, salary, or self-employment income before taxes.</li>
               <li><strong>Preexisting support paid</strong>: Court-ordered child support from ${parent2Possessive} other cases.</li>
               <li><strong>Alimony paid / received</strong>: Monthly spousal support ${parent2Possessive} household pays or receives.</li>
+              <li><strong>Children's Social Security benefits</strong>: Dependent benefits the children receive because of ${parent2Possessive} retirement or disability. They count as ${parent2Possessive} income and are credited against what ${parent2NameEsc} owes.</li>
               <li><strong>Additional in-home children</strong>: Number of other children living in ${parent2Possessive} home full time.</li>
             </ul>
             <div class="grid three">
-              <label>Actual monthly income<input type="number" step="0.01" name="parent2_actualMonthly" value="${field("parent2_actualMonthly")}" /></label>
-              <label>Preexisting support paid<input type="number" step="0.01" name="parent2_preexistingSupportPaid" value="${field("parent2_preexistingSupportPaid")}" /></label>
-              <label>Alimony paid<input type="number" step="0.01" name="parent2_alimonyPaid" value="${field("parent2_alimonyPaid")}" /></label>
-              <label>Alimony received<input type="number" step="0.01" name="parent2_alimonyReceived" value="${field("parent2_alimonyReceived")}" /></label>
+              ${money("Actual income", "parent2_actualMonthly")}
+              ${money("Preexisting support paid", "parent2_preexistingSupportPaid")}
+              ${money("Alimony paid", "parent2_alimonyPaid")}
+              ${money("Alimony received", "parent2_alimonyReceived")}
+              ${money("Children's Social Security benefits", "parent2_socialSecurityDerivativeBenefits")}
               <label>Additional in-home children<input type="number" min="0" step="1" name="parent2_multifamilyChildrenInHome" value="${field("parent2_multifamilyChildrenInHome")}" /></label>
             </div>
+            ${itemizeIncome("parent2")}
+            ${potentialIncome("parent2")}
           </section>
         `,
       };
     case 6:
       return {
-        visibleFields: [
+        visibleFields: withFrequencies([
           "addOns_childcare",
           "addOns_healthInsurance",
           "addOns_extraordinaryMedical",
           "addOns_cashMedicalIVD",
           "addOns_additionalExpenses",
+          ...medicalCostFields(form),
+          ...childcareFields(form),
+          ...PREMIUM_FIELDS,
           "directPay_parent1_childcare",
           "directPay_parent1_healthInsurance",
           "directPay_parent1_extraordinaryMedical",
@@ -584,11 +1253,11 @@ function renderStepContent(step: number, helpers: StepHelpers, result: CaseOutpu
           "directPay_parent2_extraordinaryMedical",
           "directPay_parent2_cashMedicalIVD",
           "directPay_parent2_additionalExpenses",
-        ],
+        ]),
         content: `
           <section class="step">
             <h2>Add-on expenses & direct payments</h2>
-            <p>List the monthly child-related expenses for this case and how much each parent pays directly. Enter whole dollars or cents. If an item does not apply, leave it blank or enter 0.</p>
+            <p>List the child-related expenses for this case and how much each parent pays directly, choosing how often each amount is paid. Enter whole dollars or cents. If an item does not apply, leave it blank or enter 0.</p>
             <ul class="muted">
               <li><strong>Childcare</strong>: Daycare, babysitting, or after-school care needed for work or school.</li>
               <li><strong>Health insurance</strong>: The portion of a health plan premium that covers the children in this case.</li>
@@ -597,30 +1266,78 @@ function renderStepContent(step: number, helpers: StepHelpers, result: CaseOutpu
               <li><strong>Additional expenses</strong>: Agreed costs like tutoring, activities, or transportation.</li>
             </ul>
             <div class="grid three">
-              <label>Childcare<input type="number" step="0.01" name="addOns_childcare" value="${field("addOns_childcare")}" /></label>
-              <label>Health insurance<input type="number" step="0.01" name="addOns_healthInsurance" value="${field("addOns_healthInsurance")}" /></label>
-              <label>Extraordinary medical<input type="number" step="0.01" name="addOns_extraordinaryMedical" value="${field("addOns_extraordinaryMedical")}" /></label>
-              <label>Cash medical (IV-D)<input type="number" step="0.01" name="addOns_cashMedicalIVD" value="${field("addOns_cashMedicalIVD")}" /></label>
-              <label>Additional expenses<input type="number" step="0.01" name="addOns_additionalExpenses" value="${field("addOns_additionalExpenses")}" /></label>
+              ${money("Childcare", "addOns_childcare")}
+              ${money("Health insurance", "addOns_healthInsurance")}
+              ${money("Extraordinary medical", "addOns_extraordinaryMedical")}
+              ${money("Cash medical (IV-D)", "addOns_cashMedicalIVD")}
+              ${money("Additional expenses", "addOns_additionalExpenses")}
             </div>
+            <details class="itemize" ${form.childcare_paidBy ? "open" : ""}>
+              <summary>Work out childcare from providers</summary>
+              <p class="muted">Enter each child's provider, weekly hours and hourly rate; we work out the monthly cost as hours × rate × 52 ÷ 12. If you give a ceiling, we warn about any child whose care costs more than that a month. If you give a tax-credit percentage, we take the assumed dependent-care credit off the cost, on yearly expenses up to $3,000 for one child or $6,000 for two or more. The result replaces the childcare amount above and the paying parent's direct payment for childcare.</p>
+              <div class="grid three">
+                <label>Paid by
+                  <select name="childcare_paidBy">
+                    <option value="" ${selected("childcare_paidBy", "")}>Not used</option>
+                    <option value="P1" ${selected("childcare_paidBy", "P1")}>${parent1NameEsc}</option>
+                    <option value="P2" ${selected("childcare_paidBy", "P2")}>${parent2NameEsc}</option>
+                  </select>
+                </label>
+                <label>Monthly ceiling per child<input type="number" step="0.01" min="0" name="childcare_ceilingPerChild" value="${field("childcare_ceilingPerChild")}" /></label>
+                <label>Tax-credit percentage<input type="number" step="1" min="0" max="50" name="childcare_taxCreditPercent" value="${field("childcare_taxCreditPercent")}" /></label>
+              </div>
+              ${Array.from({ length: Math.max(1, readInt(form, "numChildrenThisCase", 1)) }, (_, i) => {
+                const key = `childcare_child${i + 1}`;
+                return `
+              <div class="grid three">
+                <label>Child ${i + 1} provider<input type="text" name="${key}_provider" value="${field(`${key}_provider`)}" /></label>
+                <label>Hours per week<input type="number" step="0.5" min="0" name="${key}_hoursPerWeek" value="${field(`${key}_hoursPerWeek`)}" /></label>
+                <label>Hourly rate<input type="number" step="0.01" min="0" name="${key}_hourlyRate" value="${field(`${key}_hourlyRate`)}" /></label>
+              </div>`;
+              }).join("")}
+            </details>
+            <details class="itemize" ${form.premium_paidBy ? "open" : ""}>
+              <summary>Work out health insurance from the family premium</summary>
+              <p class="muted">If you know the whole premium rather than the children's part, enter it here. With a self-only premium we take it away from the family premium and share what is left among the dependents on the plan; without one we share the family premium among everyone covered. Either way we multiply by the children in this case on the plan. The result replaces the health insurance amount above and the paying parent's direct payment for health insurance.</p>
+              <div class="grid three">
+                <label>Paid by
+                  <select name="premium_paidBy">
+                    <option value="" ${selected("premium_paidBy", "")}>Not used</option>
+                    <option value="P1" ${selected("premium_paidBy", "P1")}>${parent1NameEsc}</option>
+                    <option value="P2" ${selected("premium_paidBy", "P2")}>${parent2NameEsc}</option>
+                  </select>
+                </label>
+                ${money("Family premium", "premium_familyPremium")}
+                ${money("Self-only premium (if known)", "premium_selfOnlyPremium")}
+                <label>People covered, including the policyholder<input type="number" min="1" name="premium_peopleCovered" value="${field("premium_peopleCovered")}" /></label>
+                <label>Children in this case covered<input type="number" min="1" name="premium_childrenCovered" value="${field("premium_childrenCovered")}" /></label>
+              </div>
+            </details>
+            <details class="itemize" ${medicalCostFields(form).some((f) => readNumber(form, f) > 0) ? "open" : ""}>
+              <summary>Uninsured medical costs by child</summary>
+              <p class="muted">Enter each child's uninsured medical costs instead of an extraordinary medical figure. The first $100 per child per year is ordinary and left out; the rest counts as extraordinary medical expenses. When any child's cost is filled in, it replaces the extraordinary medical figure above.</p>
+              <div class="grid three">
+                ${medicalCostFields(form).map((f, i) => money(`Child ${i + 1}`, f)).join("")}
+              </div>
+            </details>
             <div class="direct-pay">
               <div>
                 <h3>${parent1NameEsc} direct pay amounts</h3>
-                <p class="muted">Enter how much ${parent1NameEsc} already pays each month for these expenses.</p>
-                <label>Childcare<input type="number" step="0.01" name="directPay_parent1_childcare" value="${field("directPay_parent1_childcare")}" /></label>
-                <label>Health insurance<input type="number" step="0.01" name="directPay_parent1_healthInsurance" value="${field("directPay_parent1_healthInsurance")}" /></label>
-                <label>Extraordinary medical<input type="number" step="0.01" name="directPay_parent1_extraordinaryMedical" value="${field("directPay_parent1_extraordinaryMedical")}" /></label>
-                <label>Cash medical (IV-D)<input type="number" step="0.01" name="directPay_parent1_cashMedicalIVD" value="${field("directPay_parent1_cashMedicalIVD")}" /></label>
-                <label>Additional expenses<input type="number" step="0.01" name="directPay_parent1_additionalExpenses" value="${field("directPay_parent1_additionalExpenses")}" /></label>
+                <p class="muted">Enter how much ${parent1NameEsc} already pays for these expenses.</p>
+                ${money("Childcare", "directPay_parent1_childcare")}
+                ${money("Health insurance", "directPay_parent1_healthInsurance")}
+                ${money("Extraordinary medical", "directPay_parent1_extraordinaryMedical")}
+                ${money("Cash medical (IV-D)", "directPay_parent1_cashMedicalIVD")}
+                ${money("Additional expenses", "directPay_parent1_additionalExpenses")}
               </div>
               <div>
                 <h3>${parent2NameEsc} direct pay amounts</h3>
-                <p class="muted">Enter how much ${parent2NameEsc} already pays each month for these expenses.</p>
-                <label>Childcare<input type="number" step="0.01" name="directPay_parent2_childcare" value="${field("directPay_parent2_childcare")}" /></label>
-                <label>Health insurance<input type="number" step="0.01" name="directPay_parent2_healthInsurance" value="${field("directPay_parent2_healthInsurance")}" /></label>
-                <label>Extraordinary medical<input type="number" step="0.01" name="directPay_parent2_extraordinaryMedical" value="${field("directPay_parent2_extraordinaryMedical")}" /></label>
-                <label>Cash medical (IV-D)<input type="number" step="0.01" name="directPay_parent2_cashMedicalIVD" value="${field("directPay_parent2_cashMedicalIVD")}" /></label>
-                <label>Additional expenses<input type="number" step="0.01" name="directPay_parent2_additionalExpenses" value="${field("directPay_parent2_additionalExpenses")}" /></label>
+                <p class="muted">Enter how much ${parent2NameEsc} already pays for these expenses.</p>
+                ${money("Childcare", "directPay_parent2_childcare")}
+                ${money("Health insurance", "directPay_parent2_healthInsurance")}
+                ${money("Extraordinary medical", "directPay_parent2_extraordinaryMedical")}
+                ${money("Cash medical (IV-D)", "directPay_parent2_cashMedicalIVD")}
+                ${money("Additional expenses", "directPay_parent2_additionalExpenses")}
               </div>
             </div>
           </section>
@@ -636,7 +1353,7 @@ function renderStepContent(step: number, helpers: StepHelpers, result: CaseOutpu
             <p>Review every section carefully. Use the Back button to make corrections, then return here to refresh the calculation.</p>
             <p class="muted">The summary below repeats your answers using the parent names you provided so you can spot any typos quickly.</p>
             ${renderDataSummary(form)}
-            ${renderResult(result, form)}
+            ${renderResult(result, inputs, form)}
             ${!result ? '<p class="muted">Complete all required fields to generate a worksheet.</p>' : ""}
           </section>
         `,
@@ -651,7 +1368,7 @@ function clampStep(step: number): number {
   return step;
 }
 
-function renderPage({ form, step, result, errors }: RenderOptions): string {
+function renderPage({ form, step, result, inputs, errors }: RenderOptions): string {
   const errList = errors && errors.length
     ? `<div class="errors"><h2>Validation issues</h2><ul>${errors.map((e) => `<li>${escapeHtml(e)}</li>`).join("")}</ul></div>`
     : "";
@@ -660,7 +1377,7 @@ function renderPage({ form, step, result, errors }: RenderOptions): string {
   const checked = (name: string, value: string) => (form[name] === value ? "checked" : "");
   const selected = (name: string, value: string) => (form[name] === value ? "selected" : "");
 
-  const template = renderStepContent(step, { field, checked, selected }, result, form);
+  const template = renderStepContent(step, { field, checked, selected }, result, inputs, form);
   const hiddenInputs = renderHiddenInputs(form, template.visibleFields);
 
   const stepDefinitions = getSteps(form);
@@ -709,8 +1426,12 @@ function renderPage({ form, step, result, errors }: RenderOptions): string {
     form { background: white; border-radius: 16px; padding: 1.75rem; box-shadow: 0 18px 38px rgba(15, 23, 42, 0.12); display: grid; gap: 1.5rem; }
     form section.step { display: grid; gap: 1rem; }
     label { display: flex; flex-direction: column; gap: 0.35rem; font-size: 0.95rem; color: #1f2933; }
-    input[type="text"], input[type="number"], select { padding: 0.5rem 0.6rem; border-radius: 8px; border: 1px solid #c2c8d4; font-size: 1rem; background: #f9fbff; }
-    input[type="text"]:focus, input[type="number"]:focus, select:focus { outline: 2px solid #3b82f6; outline-offset: 2px; background: white; }
+    .money { display: flex; gap: 0.35rem; }
+    .itemize { margin-top: 1rem; }
+    .itemize summary { cursor: pointer; font-weight: 600; }
+    .money input { flex: 1; min-width: 0; }
+    input[type="text"], input[type="number"], input[type="date"], select { padding: 0.5rem 0.6rem; border-radius: 8px; border: 1px solid #c2c8d4; font-size: 1rem; background: #f9fbff; }
+    input[type="text"]:focus, input[type="number"]:focus, input[type="date"]:focus, select:focus { outline: 2px solid #3b82f6; outline-offset: 2px; background: white; }
     .grid { display: grid; gap: 1rem; }
     .grid.two { grid-template-columns: repeat(auto-fit, minmax(240px, 1fr)); }
     .grid.three { grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); }
@@ -744,13 +1465,37 @@ function renderPage({ form, step, result, errors }: RenderOptions): string {
     .summary { font-size: 1.15rem; }
     .results-grid { display: grid; gap: 1.25rem; grid-template-columns: repeat(auto-fit, minmax(260px, 1fr)); }
     .result-card { background: #f9fbff; border-radius: 12px; border: 1px solid #dbe5ff; padding: 1rem 1.25rem; }
-    .worksheet table { width: 100%; border-collapse: collapse; }
-    .worksheet th, .worksheet td { border-bottom: 1px solid #e2e8f0; padding: 0.45rem 0.5rem; text-align: left; }
-    .worksheet tbody tr:nth-child(odd) { background: #eef2ff; }
+    .official-forms { display: grid; gap: 1.5rem; }
+    .official-form { background: white; border: 1px solid #1f2933; padding: 1.5rem; font-family: "Times New Roman", Times, serif; color: #111; }
+    .official-form h3 { text-align: center; text-transform: uppercase; margin: 1rem 0 0.25rem; }
+    .official-form h4 { margin: 1.25rem 0 0.5rem; text-transform: uppercase; }
+    .form-meta { text-align: center; margin: 0 0 0.75rem; font-size: 0.9rem; }
+    .form-caption p { margin: 0.25rem 0; }
+    .form-parties { display: grid; grid-template-columns: 1fr auto 1fr 1fr; gap: 1rem; align-items: end; margin-top: 0.75rem; }
+    .form-hint { display: block; font-size: 0.8rem; font-weight: normal; color: #4a5668; }
+    .form-blank { display: inline-block; min-width: 12rem; border-bottom: 1px solid #111; }
+    .form-blank.wide { display: block; min-height: 3rem; }
+    .form-lines { width: 100%; border-collapse: collapse; margin-top: 0.5rem; }
+    .form-lines th, .form-lines td { border: 1px solid #1f2933; padding: 0.35rem 0.5rem; text-align: left; vertical-align: top; }
+    .form-lines thead th { text-align: center; }
+    .form-lines td.amount { text-align: right; white-space: nowrap; width: 9rem; }
+    .form-lines tr.form-heading td { background: #f1f5f9; }
+    .form-footer { margin-top: 1rem; }
+    .form-footer ul { margin: 0.25rem 0 0.75rem; padding-left: 1.2rem; }
     @media (max-width: 768px) {
       header, main { padding: 1rem; }
       form { padding: 1.25rem; }
     }
+    @media print {
+      @page { margin: 0.6in; }
+      body { background: white; }
+      body > header, .stepper, .errors, .actions, .step > :not(.results), .results > :not(.official-forms) { display: none; }
+      main, form, .results { padding: 0; margin: 0; max-width: none; border: none; border-radius: 0; box-shadow: none; background: none; }
+      .official-form { border: none; padding: 0; break-after: page; }
+      .official-form:last-child { break-after: auto; }
+      .form-lines tr { break-inside: avoid; }
+      .form-lines tr.form-heading td { background: none; }
+    }
   </style>
 </head>
 <body>
@@ -790,12 +1535,128 @@ function handleWizardResponse(res: http.ServerResponse, html: string) {
   res.end(html);
 }
 
+function sendJson(res: http.ServerResponse, response: ApiResponse<unknown>, headers: Record<string, string> = {}) {
+  res.statusCode = response.status;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  for (const [name, value] of Object.entries(headers)) res.setHeader(name, value);
+  res.end(JSON.stringify(response.body));
+}
+
+// Collects the request body, up to limit bytes (MAX_BODY_BYTES unless the
+// route allows more).  A larger body is drained and dropped, and onTooLarge
+// runs instead of onBody.
+function readBody(
+  req: http.IncomingMessage,
+  onBody: (body: string) => void,
+  onTooLarge: () => void,
+  limit = MAX_BODY_BYTES
+) {
+  const declared = Number(req.headers["content-length"]);
+  let tooLarge = Number.isFinite(declared) && declared > limit;
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on("data", (chunk: Buffer) => {
+    if (tooLarge) return;
+    size += chunk.length;
+    if (size > limit) {
+      tooLarge = true;
+      chunks.length = 0;
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on("end", () => {
+    if (tooLarge) onTooLarge();
+    else onBody(Buffer.concat(chunks).toString("utf8"));
+  });
+}
+
+const API_CALCULATE_PATH = `/api/${API_VERSION}/calculate`;
+const API_BATCH_PATH = `/api/${API_VERSION}/batch`;
+
+// Contract documents generated from the Zod schemas, served read-only.
+const API_DOCUMENTS: Record<string, () => unknown> = {
+  [`/api/${API_VERSION}/openapi.json`]: openApiDocument,
+  [`/api/${API_VERSION}/schema/case-inputs.json`]: caseInputsJsonSchema,
+  [`/api/${API_VERSION}/schema/case-outputs.json`]: caseOutputsJsonSchema,
+};
+
+// JSON API: POST a CaseInputs document to /api/v1/calculate and get the
+// CaseOutputs back.  Errors come back as JSON with a status and code.  The
+// OpenAPI document and JSON Schemas describing that exchange are at GET
+// /api/v1/openapi.json and /api/v1/schema/*.json.
+function handleApiRequest(req: http.IncomingMessage, res: http.ServerResponse, method: string, path: string) {
+  const document = API_DOCUMENTS[path];
+  if (document) {
+    if (method !== "GET") {
+      req.resume();
+      sendJson(res, apiError(405, "method_not_allowed", `Use GET for ${path}.`), { Allow: "GET" });
+      return;
+    }
+    sendJson(res, { status: 200, body: document() });
+    return;
+  }
+  if (path === API_BATCH_PATH) {
+    handleApiBatchRequest(req, res, method, path);
+    return;
+  }
+  if (path !== API_CALCULATE_PATH) {
+    req.resume();
+    sendJson(res, apiError(404, "not_found", `No API route at ${path}.`));
+    return;
+  }
+  if (method !== "POST") {
+    req.resume();
+    sendJson(res, apiError(405, "method_not_allowed", `Use POST for ${path}.`), { Allow: "POST" });
+    return;
+  }
+  const contentType = (req.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+  if (contentType !== "application/json") {
+    req.resume();
+    sendJson(res, apiError(415, "unsupported_media_type", "Send the case as application/json."));
+    return;
+  }
+  readBody(
+    req,
+    (body) => sendJson(res, handleCalculateRequest(body, defaultScheduleRegistry)),
+    () => sendJson(res, apiError(413, "body_too_large", `Request body is larger than ${MAX_BODY_BYTES} bytes.`))
+  );
+}
+
+// Batch API: POST a CSV or JSON Lines file of cases to /api/v1/batch and get
+// a report with each case's outputs or errors and a summary.  Bad records
+// are listed in the report; they do not fail the request.
+function handleApiBatchRequest(req: http.IncomingMessage, res: http.ServerResponse, method: string, path: string) {
+  if (method !== "POST") {
+    req.resume();
+    sendJson(res, apiError(405, "method_not_allowed", `Use POST for ${path}.`), { Allow: "POST" });
+    return;
+  }
+  const format = batchFormatFor(req.headers["content-type"] ?? "");
+  if (!format) {
+    req.resume();
+    sendJson(res, apiError(415, "unsupported_media_type", "Send the cases as text/csv or application/x-ndjson."));
+    return;
+  }
+  readBody(
+    req,
+    (body) => sendJson(res, handleBatchRequest(body, format, defaultScheduleRegistry)),
+    () => sendJson(res, apiError(413, "body_too_large", `Request body is larger than ${MAX_BATCH_BODY_BYTES} bytes.`)),
+    MAX_BATCH_BODY_BYTES
+  );
+}
+
 function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
   const method = req.method ?? "GET";
   const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
   const path = url.pathname;
   const isWizardRoute = path === "/" || path === "/calculate";
 
+  if (path.startsWith("/api/")) {
+    handleApiRequest(req, res, method, path);
+    return;
+  }
+
   if (method === "GET" && isWizardRoute) {
     const step = parseStep(url.searchParams.get("step"));
     const html = renderPage({ form: { ...defaultForm }, step, result: null });
@@ -804,11 +1665,7 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
   }
 
   if (method === "POST" && isWizardRoute) {
-    let body = "";
-    req.on("data", (chunk: Buffer) => {
-      body += chunk.toString();
-    });
-    req.on("end", () => {
+    readBody(req, (body) => {
       const params = new URLSearchParams(body);
       const navigate = params.get("navigate") ?? "next";
       const currentStep = parseStep(params.get("currentStep"));
@@ -837,14 +1694,16 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
       }
 
       let result: CaseOutputs | null = null;
+      let inputs: CaseInputs | null = null;
       let errors: string[] | undefined;
 
       if (nextStep === TOTAL_STEPS) {
-        const { inputs, errors: validationErrors } = buildInputs(form);
-        const errorList = [...validationErrors];
+        const built = buildInputs(form);
+        inputs = built.inputs;
+        const errorList = [...built.errors];
         if (inputs) {
           try {
-            result = calculateCase(inputs, demoSchedule);
+            result = calculateCase(inputs, defaultScheduleRegistry);
           } catch (err) {
             errorList.push(err instanceof Error ? err.message : String(err));
           }
@@ -852,8 +1711,12 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
         errors = errorList.length ? errorList : undefined;
       }
 
-      const html = renderPage({ form, step: nextStep, result, errors });
+      const html = renderPage({ form, step: nextStep, result, inputs, errors });
       handleWizardResponse(res, html);
+    }, () => {
+      res.statusCode = 413;
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.end("Request body too large");
     });
     return;
   }
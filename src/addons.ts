@@ -4,7 +4,41 @@
  * advocate or litigant can trace how the numbers move without needing to know
  * programming terminology.
  */
-import type { AddOns, DirectPay } from "./schema";
+import type { AddOns, DirectPay, DirectPayAddOns } from "./schema";
+
+/**
+ * The five add-on categories in form order.  "suffix" is the letter each one
+ * carries on the forms: Worksheet A lines 4a–4e and Worksheet B lines 13a–13e.
+ */
+export const ADD_ON_CATEGORIES: Array<{
+  category: keyof DirectPayAddOns;
+  suffix: string;
+  label: string;
+}> = [
+  { category: "childcare", suffix: "a", label: "childcare" },
+  { category: "healthInsurance", suffix: "b", label: "health insurance" },
+  { category: "extraordinaryMedical", suffix: "c", label: "extraordinary medical" },
+  { category: "cashMedicalIVD", suffix: "d", label: "cash medical (IV-D)" },
+  { category: "additionalExpenses", suffix: "e", label: "additional expenses" },
+];
+
+/**
+ * One add-on category split between the parents: the amount reported for the
+ * case, each parent's income share of it, what each parent already pays
+ * straight to the provider, and how much of that payment counts toward line 7.
+ */
+export type AddOnAllocation = {
+  category: keyof DirectPayAddOns;
+  suffix: string;
+  label: string;
+  total: number;
+  p1Share: number;
+  p2Share: number;
+  p1DirectPay: number;
+  p2DirectPay: number;
+  p1DirectPayCredited: number;
+  p2DirectPayCredited: number;
+};
 
 /**
  * Adds together every extra monthly expense that the parents reported.
@@ -39,39 +73,112 @@ export function splitByShare(total: number, p1Share: number) {
 }
 
 /**
- * Totals the amounts a parent already pays directly to third parties (for
- * example to a daycare or insurer).
+ * Decides how much of each parent's direct payments for one category can be
+ * credited against their share.
  *
- * This mirrors filling out Worksheet A/B line 7: we scoop each of the direct
- * payments into a single figure so that we can subtract it from that parent's
- * obligation later.
+ * A parent can only be credited for an expense that is on the worksheet, so
+ * the two payments together never count for more than the amount reported for
+ * the category.  When they do add up to more, each parent's credit is brought
+ * down in proportion to what they paid.  Paying too much for childcare never
+ * makes up for insurance nobody paid.
  */
-export function directPayTotalForParent(dp: DirectPay["parent1"]): number {
-  return (
-    (dp.childcare ?? 0) +
-    (dp.healthInsurance ?? 0) +
-    (dp.extraordinaryMedical ?? 0) +
-    (dp.cashMedicalIVD ?? 0) +
-    (dp.additionalExpenses ?? 0)
+export function creditDirectPay(total: number, p1Paid: number, p2Paid: number) {
+  const paid = p1Paid + p2Paid;
+  if (paid <= total) return { p1: p1Paid, p2: p2Paid };
+  const scale = total / paid;
+  return { p1: p1Paid * scale, p2: p2Paid * scale };
+}
+
+/**
+ * Totals the direct payments credited to one parent across the five
+ * categories: Worksheet A line 7.
+ */
+export function creditedDirectPayTotal(allocations: AddOnAllocation[], parent: "P1" | "P2"): number {
+  return allocations.reduce(
+    (sum, a) => sum + (parent === "P1" ? a.p1DirectPayCredited : a.p2DirectPayCredited),
+    0
   );
 }
 
 /**
- * Produces a friendly warning when the direct-pay totals do not add up to the
- * declared add-on total.
+ * Splits every add-on category by income share and lines it up with the
+ * direct payments for that same category.
  *
- * The message acts as a double-check for users: if the numbers differ by more
- * than a whisper (one penny), we return a sentence suggesting that the person
- * re-check the figures; otherwise we return nothing.
+ * This is the per-line version of totalAddOns plus splitByShare: instead of
+ * one stack of expenses we keep five, so the worksheet can show lines 4a–4e
+ * (or 13a–13e) and each parent's part of every one.
  */
-export function directPayConsistencyWarning(
-  addOnsTotal: number,
-  p1: number,
-  p2: number
-): string | null {
-  const sum = p1 + p2;
-  const diff = Math.abs(sum - addOnsTotal);
-  return diff > 1e-6
-    ? `Note: direct-pay sum (${sum.toFixed(2)}) != add-ons total (${addOnsTotal.toFixed(2)}).`
+export function allocateAddOns(
+  addOns: AddOns,
+  directPay: DirectPay,
+  p1Share: number
+): AddOnAllocation[] {
+  return ADD_ON_CATEGORIES.map(({ category, suffix, label }) => {
+    const total = addOns[category] ?? 0;
+    const { p1, p2 } = splitByShare(total, p1Share);
+    const p1DirectPay = directPay.parent1[category] ?? 0;
+    const p2DirectPay = directPay.parent2[category] ?? 0;
+    const credited = creditDirectPay(total, p1DirectPay, p2DirectPay);
+    return {
+      category,
+      suffix,
+      label,
+      total,
+      p1Share: p1,
+      p2Share: p2,
+      p1DirectPay,
+      p2DirectPay,
+      p1DirectPayCredited: credited.p1,
+      p2DirectPayCredited: credited.p2,
+    };
+  });
+}
+
+/**
+ * Lays the allocation out as worksheet lines, one group per category, for
+ * example "line4a_childcare", "line4a_p1Share" and "line4a_p1DirectPay".
+ * "line" is the form line the categories hang off (4 on Worksheet A, 13 on
+ * Worksheet B).  Categories with nothing reported or paid are left out, and
+ * the credited amounts ("line4a_p1DirectPayCredited") only appear when they
+ * differ from what was paid.
+ */
+export function addOnLines(line: number, allocations: AddOnAllocation[]): Record<string, number> {
+  const lines: Record<string, number> = {};
+  for (const a of allocations) {
+    if (a.total === 0 && a.p1DirectPay === 0 && a.p2DirectPay === 0) continue;
+    const prefix = `line${line}${a.suffix}`;
+    lines[`${prefix}_${a.category}`] = a.total;
+    lines[`${prefix}_p1Share`] = a.p1Share;
+    lines[`${prefix}_p2Share`] = a.p2Share;
+    lines[`${prefix}_p1DirectPay`] = a.p1DirectPay;
+    lines[`${prefix}_p2DirectPay`] = a.p2DirectPay;
+    if (a.p1DirectPayCredited !== a.p1DirectPay || a.p2DirectPayCredited !== a.p2DirectPay) {
+      lines[`${prefix}_p1DirectPayCredited`] = a.p1DirectPayCredited;
+      lines[`${prefix}_p2DirectPayCredited`] = a.p2DirectPayCredited;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Checks the direct payments category by category.
+ *
+ * Comparing totals alone would pass a case where, say, the childcare payments
+ * are too high and the insurance payments too low by the same amount.  Here
+ * each category's direct payments must match that category's reported amount,
+ * and every mismatch is named in a single sentence, with the amount credited
+ * when the payments were more than the expense.  Returns nothing when all five
+ * categories agree.
+ */
+export function directPayCategoryWarning(allocations: AddOnAllocation[]): string | null {
+  const mismatches = allocations
+    .filter((a) => Math.abs(a.p1DirectPay + a.p2DirectPay - a.total) > 1e-6)
+    .map((a) => {
+      const paid = a.p1DirectPay + a.p2DirectPay;
+      const credited = paid > a.total ? `, credited ${a.total.toFixed(2)}` : "";
+      return `${a.label} (paid ${paid.toFixed(2)}, reported ${a.total.toFixed(2)}${credited})`;
+    });
+  return mismatches.length
+    ? `Note: direct payments do not match the add-ons for ${mismatches.join("; ")}.`
     : null;
-}
\ No newline at end of file
+}
@@ -0,0 +1,137 @@
+/**
+ * JSON API helpers.  The web server's wizard speaks HTML forms; other
+ * systems want to send a case as JSON and get the outputs back as JSON.
+ * This file holds the part of that exchange that does not depend on the
+ * HTTP server: reading the body, validating it against the CaseInputs
+ * schema, running the calculator, and shaping errors so a client can point
+ * at the exact field that was wrong.
+ */
+import { z } from "zod";
+import { calculateCase } from "./calc";
+import { CaseInputs, type CaseOutputs } from "./schema";
+import type { Schedule } from "./schedule";
+import { isScheduleRegistry, scheduleForDate, todayIsoDate, type ScheduleRegistry } from "./registry";
+
+/**
+ * Version segment of the API paths ("/api/v1/...").  It changes only when a
+ * response shape changes in a way existing clients would notice.
+ */
+export const API_VERSION = "v1";
+
+/**
+ * Largest request body the API accepts, in bytes.  A case is a few
+ * kilobytes; anything near this size is a mistake or abuse.
+ */
+export const MAX_BODY_BYTES = 256 * 1024;
+
+export const ApiErrorCode = z.enum([
+  "invalid_json",
+  "invalid_body",
+  "unsupported_media_type",
+  "body_too_large",
+  "validation_failed",
+  "calculation_failed",
+  "method_not_allowed",
+  "not_found",
+]);
+export type ApiErrorCode = z.infer<typeof ApiErrorCode>;
+
+/**
+ * One validation problem.  "path" leads from the top of the case to the
+ * field, such as ["parent1", "actualMonthly"] or ["childcare",
+ * "arrangements", 0, "child"].
+ */
+export const ApiIssue = z.object({
+  path: z.array(z.union([z.string(), z.number()])),
+  message: z.string(),
+  code: z.string(),
+});
+export type ApiIssue = z.infer<typeof ApiIssue>;
+
+export const ApiError = z.object({
+  error: z.object({
+    status: z.number().int(),
+    code: ApiErrorCode,
+    message: z.string(),
+    issues: z.array(ApiIssue).optional(),
+  }),
+});
+export type ApiError = z.infer<typeof ApiError>;
+
+/**
+ * What the server should send back: the HTTP status and the JSON body.
+ */
+export type ApiResponse<T = CaseOutputs> = {
+  status: number;
+  body: T | ApiError;
+};
+
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  issues?: ApiIssue[]
+): ApiResponse<never> {
+  return { status, body: { error: { status, code, message, ...(issues ? { issues } : {}) } } };
+}
+
+/**
+ * Lists a Zod error's problems in the API's issue shape.
+ */
+export function apiIssues(error: z.ZodError): ApiIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.map((p) => (typeof p === "symbol" ? String(p) : p)),
+    message: issue.message,
+    code: issue.code,
+  }));
+}
+
+/**
+ * Handles a calculate request body.
+ *
+ * Steps:
+ * 1.  Parse the JSON.  Text that is not JSON, or JSON that is not an object,
+ *     is a bad request (400).
+ * 2.  Validate it as CaseInputs.  If anything is wrong, list every problem
+ *     with its path (422).  A case whose "as of" date has no schedule in the
+ *     registry is a problem with that field too.
+ * 3.  Run the calculator and return the outputs (200).  If the calculator
+ *     itself fails, report it as a server error (500).  The details go to
+ *     the server log rather than the client.
+ */
+export function handleCalculateRequest(
+  rawBody: string,
+  scheduleSource: Schedule | ScheduleRegistry
+): ApiResponse {
+  let json: unknown;
+  try {
+    json = JSON.parse(rawBody);
+  } catch (err) {
+    return apiError(400, "invalid_json", `Request body is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (json === null || typeof json !== "object" || Array.isArray(json)) {
+    return apiError(400, "invalid_body", "Request body must be a JSON object holding the case inputs.");
+  }
+
+  const parsed = CaseInputs.safeParse(json);
+  if (!parsed.success) {
+    return apiError(422, "validation_failed", "Case inputs failed validation.", apiIssues(parsed.error));
+  }
+  if (isScheduleRegistry(scheduleSource)) {
+    try {
+      scheduleForDate(scheduleSource, parsed.data.asOfDate ?? todayIsoDate());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return apiError(422, "validation_failed", "Case inputs failed validation.", [
+        { path: ["asOfDate"], message, code: "custom" },
+      ]);
+    }
+  }
+
+  try {
+    return { status: 200, body: calculateCase(parsed.data, scheduleSource) };
+  } catch (err) {
+    console.error("Calculate request failed:", err);
+    return apiError(500, "calculation_failed", "The calculator could not complete this case.");
+  }
+}
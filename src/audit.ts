@@ -0,0 +1,151 @@
+/**
+ * Schedule audits.  validateSchedule only checks that the table has the right
+ * shape.  These checks look at the numbers themselves and catch the kinds of
+ * copying mistakes a shape check misses: an amount that drops as income rises,
+ * a bigger family owing less than a smaller one, or a jump far out of line
+ * with its neighbours.  Nothing here throws; every problem comes back as a
+ * finding so a reviewer can see them all at once.
+ */
+import { validateSchedule, type Schedule } from "./schedule";
+
+export type AuditCheck =
+  | "structure"
+  | "invalidAmount"
+  | "rowDecrease"
+  | "columnDecrease"
+  | "outlierJump";
+
+/**
+ * One thing the audit noticed.  Errors are amounts the statute cannot mean;
+ * warnings are amounts that deserve a second look against the printed table.
+ * "rowIndex" and "income" point at the row where the problem shows up.
+ */
+export type AuditFinding = {
+  check: AuditCheck;
+  severity: "error" | "warning";
+  column: string | null;
+  rowIndex: number | null;
+  income: number | null;
+  message: string;
+};
+
+export type AuditOptions = {
+  /**
+   * How many times larger than the column's typical row-to-row increase a
+   * jump must be before it is flagged.  Defaults to 4.
+   */
+  outlierFactor?: number;
+};
+
+const DEFAULT_OUTLIER_FACTOR = 4;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Reviews a schedule and returns everything that looks wrong.
+ *
+ * Steps:
+ * 1.  Run the shape check.  If the table is malformed we report that alone,
+ *     since the other checks would be reading the wrong cells.
+ * 2.  Flag any amount that is negative or not a number.
+ * 3.  Down each column, flag any amount lower than the row above it.
+ * 4.  Across each row, flag any column lower than the column for one fewer
+ *     child.
+ * 5.  Down each column, flag increases far larger than that column's typical
+ *     increase.  Rows set by the self-support reserve are skipped here because
+ *     they phase in steeply on purpose.
+ */
+export function auditSchedule(schedule: Schedule, options: AuditOptions = {}): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  try {
+    validateSchedule(schedule);
+  } catch (err) {
+    findings.push({
+      check: "structure",
+      severity: "error",
+      column: null,
+      rowIndex: null,
+      income: null,
+      message: err instanceof Error ? err.message : String(err),
+    });
+    return findings;
+  }
+
+  const incomes = schedule.combinedMonthlyIncome;
+  const keys = Object.keys(schedule.byChildren).sort((a, b) => Number(a) - Number(b));
+  const factor = options.outlierFactor ?? DEFAULT_OUTLIER_FACTOR;
+
+  for (const key of keys) {
+    const col = schedule.byChildren[key];
+    const reserve = schedule.flags?.selfSupportReserve?.[key];
+
+    col.forEach((amount, i) => {
+      if (!Number.isFinite(amount) || amount < 0) {
+        findings.push({
+          check: "invalidAmount",
+          severity: "error",
+          column: key,
+          rowIndex: i,
+          income: incomes[i],
+          message: `Amount ${amount} for ${key} children at ${incomes[i]} is not a valid dollar figure.`,
+        });
+      }
+    });
+
+    const jumps: Array<{ row: number; jump: number }> = [];
+    for (let i = 1; i < col.length; i++) {
+      const jump = col[i] - col[i - 1];
+      if (jump < 0) {
+        findings.push({
+          check: "rowDecrease",
+          severity: "error",
+          column: key,
+          rowIndex: i,
+          income: incomes[i],
+          message: `Amount for ${key} children drops from ${col[i - 1]} to ${col[i]} as income rises to ${incomes[i]}.`,
+        });
+      }
+      if (!reserve?.[i] && !reserve?.[i - 1]) jumps.push({ row: i, jump });
+    }
+
+    const typical = median(jumps.map((j) => j.jump));
+    if (typical > 0) {
+      for (const { row, jump } of jumps) {
+        if (jump > typical * factor) {
+          findings.push({
+            check: "outlierJump",
+            severity: "warning",
+            column: key,
+            rowIndex: row,
+            income: incomes[row],
+            message: `Amount for ${key} children jumps by ${jump} at ${incomes[row]}; the typical step is ${typical}.`,
+          });
+        }
+      }
+    }
+  }
+
+  for (let k = 1; k < keys.length; k++) {
+    const fewer = schedule.byChildren[keys[k - 1]];
+    const more = schedule.byChildren[keys[k]];
+    for (let i = 0; i < incomes.length; i++) {
+      if (more[i] < fewer[i]) {
+        findings.push({
+          check: "columnDecrease",
+          severity: "error",
+          column: keys[k],
+          rowIndex: i,
+          income: incomes[i],
+          message: `At ${incomes[i]}, ${keys[k]} children (${more[i]}) is below ${keys[k - 1]} children (${fewer[i]}).`,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
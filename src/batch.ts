@@ -0,0 +1,380 @@
+/**
+ * Batch calculation.  A caseload review runs hundreds of cases at once from a
+ * file with one case per record: JSON Lines (one CaseInputs object per line)
+ * or CSV (one case per row, with dotted column headings such as
+ * "parent1.actualMonthly").  Every record is validated and calculated on its
+ * own, so a bad record is reported beside the good ones instead of stopping
+ * the run.  A record may carry a "caseId" so results can be matched back to
+ * the caseload; it is not part of the case inputs.
+ */
+import { z } from "zod";
+import { calculateCase } from "./calc";
+import { ApiIssue, apiError, apiIssues, type ApiResponse } from "./api";
+import { splitCsvLine } from "./importer";
+import { Advisory, CaseInputs, CaseOutputs } from "./schema";
+import type { Schedule } from "./schedule";
+import type { ScheduleRegistry } from "./registry";
+
+export const BatchFormat = z.enum(["jsonl", "csv"]);
+export type BatchFormat = z.infer<typeof BatchFormat>;
+
+/**
+ * Largest batch body the API accepts, in bytes.  Room for a few thousand
+ * cases; bigger caseloads should be split into several files.
+ */
+export const MAX_BATCH_BODY_BYTES = 5 * 1024 * 1024;
+
+/**
+ * One record read from the file, before validation.  "record" counts cases
+ * from 1; "line" is where the record sits in the file.  A record that could
+ * not be read at all carries a parse error instead of a value.
+ */
+export type BatchRecord = {
+  record: number;
+  line: number;
+  caseId: string | null;
+  value: unknown;
+  parseError: string | null;
+};
+
+export const BatchCaseError = z.object({
+  code: z.enum(["invalid_record", "validation_failed", "calculation_failed"]),
+  message: z.string(),
+  issues: z.array(ApiIssue).optional(),
+});
+export type BatchCaseError = z.infer<typeof BatchCaseError>;
+
+/**
+ * The outcome for one record: its outputs when it ran, or what went wrong.
+ */
+export const BatchCaseResult = z.object({
+  record: z.number().int(),
+  line: z.number().int(),
+  caseId: z.string().nullable(),
+  ok: z.boolean(),
+  outputs: CaseOutputs.optional(),
+  error: BatchCaseError.optional(),
+});
+export type BatchCaseResult = z.infer<typeof BatchCaseResult>;
+
+/**
+ * Totals for the run.  "advisories" counts the cases flagged with each
+ * advisory; "failures" lists each failed record with its first problem so a
+ * reviewer can go straight to it.
+ */
+export const BatchSummary = z.object({
+  total: z.number().int(),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  advisories: z.record(Advisory, z.number().int()),
+  failures: z.array(
+    z.object({
+      record: z.number().int(),
+      line: z.number().int(),
+      caseId: z.string().nullable(),
+      message: z.string(),
+    })
+  ),
+});
+export type BatchSummary = z.infer<typeof BatchSummary>;
+
+export const BatchReport = z.object({
+  summary: BatchSummary,
+  results: z.array(BatchCaseResult),
+});
+export type BatchReport = z.infer<typeof BatchReport>;
+
+function caseIdOf(value: unknown): string | null {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return null;
+  const id = (value as Record<string, unknown>).caseId;
+  return typeof id === "string" || typeof id === "number" ? String(id) : null;
+}
+
+/**
+ * Reads JSON Lines: each non-blank line is one case object.
+ */
+export function parseJsonlRecords(text: string): BatchRecord[] {
+  const records: BatchRecord[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (raw.trim() === "") return;
+    const base = { record: records.length + 1, line: i + 1 };
+    try {
+      const value: unknown = JSON.parse(raw);
+      records.push({ ...base, caseId: caseIdOf(value), value, parseError: null });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      records.push({ ...base, caseId: null, value: null, parseError: `Line is not valid JSON: ${message}` });
+    }
+  });
+  return records;
+}
+
+/**
+ * Path segments that would reach an object's prototype rather than a field.
+ * No CaseInputs field has these names; they are refused outright.
+ */
+const FORBIDDEN_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Looks through the wrappers that do not change what a field holds
+ * (optional, default, nullable, the input side of a transform) and opens a
+ * union into its options, so "parent1.actualMonthly" shows both the plain
+ * number and the amount-with-frequency object.
+ */
+function fieldSchemas(schema: z.core.$ZodType): z.core.$ZodType[] {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return fieldSchemas(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return fieldSchemas(schema.unwrap());
+  if (schema instanceof z.ZodPipe) return fieldSchemas(schema.in);
+  if (schema instanceof z.ZodUnion) return schema.options.flatMap(fieldSchemas);
+  return [schema];
+}
+
+/**
+ * Follows a dotted path through the CaseInputs schema and returns what the
+ * last segment may hold, or null when the path names no field.  A numbered
+ * segment steps into an array.
+ */
+function caseFieldSchemas(dottedPath: string): z.core.$ZodType[] | null {
+  let current = fieldSchemas(CaseInputs.in);
+  for (const segment of dottedPath.split(".")) {
+    if (FORBIDDEN_SEGMENTS.has(segment)) return null;
+    current = current.flatMap((schema) => {
+      if (schema instanceof z.ZodObject && Object.prototype.hasOwnProperty.call(schema.shape, segment)) {
+        return fieldSchemas(schema.shape[segment]);
+      }
+      if (schema instanceof z.ZodArray && /^\d+$/.test(segment)) return fieldSchemas(schema.element);
+      return [];
+    });
+    if (current.length === 0) return null;
+  }
+  return current;
+}
+
+/**
+ * Whether a dotted path, such as "parent1.actualMonthly.amount" or
+ * "overnightsByChild.0", names a CaseInputs field.
+ */
+export function isCaseFieldPath(dottedPath: string): boolean {
+  return caseFieldSchemas(dottedPath) !== null;
+}
+
+/**
+ * Reads one text value, such as a CSV cell or a command-line flag, into the
+ * type its field takes: a number where the field holds numbers, true/false
+ * where it holds a yes/no, and text everywhere else (so a description of
+ * "2024" stays text).
+ */
+function fieldValue(text: string, schemas: z.core.$ZodType[]): unknown {
+  if (schemas.some((s) => s instanceof z.ZodNumber) && /^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  if (schemas.some((s) => s instanceof z.ZodBoolean) && (text === "true" || text === "false")) return text === "true";
+  return text;
+}
+
+/**
+ * Sets one field of a case from a dotted path and its text, making objects
+ * along the way and arrays where the next segment is a number
+ * ("overnightsByChild.0").  Setting "amount" or "frequency" under a field
+ * that already holds a plain number keeps that number as the amount.  Only
+ * CaseInputs fields can be set; any other path, including one reaching for
+ * "__proto__", throws.
+ */
+export function setDottedField(target: Record<string, unknown>, dottedPath: string, text: string) {
+  const schemas = caseFieldSchemas(dottedPath);
+  if (!schemas) throw new Error(`"${dottedPath}" is not a CaseInputs field.`);
+  const path = dottedPath.split(".");
+  let node: Record<string, unknown> = target;
+  path.forEach((segment, i) => {
+    if (i === path.length - 1) {
+      node[segment] = fieldValue(text, schemas);
+      return;
+    }
+    if (typeof node[segment] === "number") {
+      // A plain monthly amount being given a frequency (or a new amount)
+      // becomes the amount of an {amount, frequency} entry.
+      node[segment] = { amount: node[segment] };
+    } else if (node[segment] == null || typeof node[segment] !== "object") {
+      node[segment] = /^\d+$/.test(path[i + 1]) ? [] : {};
+    }
+    node = node[segment] as Record<string, unknown>;
+  });
+}
+
+/**
+ * Reads CSV: the header names a dotted CaseInputs path for each column, such
+ * as "parent1.actualMonthly" or, for an amount with a frequency,
+ * "parent1.actualMonthly.amount" and "parent1.actualMonthly.frequency".  A
+ * numbered segment fills an array ("overnightsByChild.0").  Each following
+ * row is one case; a row whose cell count does not match the header is
+ * recorded as a bad record.  Blank cells are left out so defaults apply.  A
+ * heading that names no CaseInputs field makes every row a bad record, so a
+ * misspelt column is not silently dropped.
+ */
+export function parseCsvRecords(text: string): BatchRecord[] {
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex((l) => l.trim() !== "");
+  if (headerIndex === -1) return [];
+  const header = splitCsvLine(lines[headerIndex]);
+  const unknown = header.filter((column) => column !== "caseId" && !isCaseFieldPath(column));
+  const named = unknown.map((c) => `"${c}"`).join(", ");
+  const headerError = unknown.length === 0
+    ? null
+    : unknown.length === 1
+      ? `Column ${named} is not a CaseInputs field.`
+      : `Columns ${named} are not CaseInputs fields.`;
+
+  const records: BatchRecord[] = [];
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === "") continue;
+    const base = { record: records.length + 1, line: i + 1 };
+    const cells = splitCsvLine(lines[i]);
+    if (headerError) {
+      records.push({ ...base, caseId: null, value: null, parseError: headerError });
+      continue;
+    }
+    if (cells.length !== header.length) {
+      records.push({
+        ...base,
+        caseId: null,
+        value: null,
+        parseError: `Row has ${cells.length} cells; header has ${header.length}.`,
+      });
+      continue;
+    }
+    // addOns is required but every add-on defaults to zero, so a row whose
+    // add-on cells are all blank still gets the empty object.
+    const value: Record<string, unknown> = { addOns: {} };
+    header.forEach((column, j) => {
+      if (cells[j] === "") return;
+      if (column === "caseId") value.caseId = cells[j];
+      else setDottedField(value, column, cells[j]);
+    });
+    records.push({ ...base, caseId: caseIdOf(value), value, parseError: null });
+  }
+  return records;
+}
+
+export function parseBatchRecords(text: string, format: BatchFormat): BatchRecord[] {
+  return format === "csv" ? parseCsvRecords(text) : parseJsonlRecords(text);
+}
+
+/**
+ * Picks the format from a file name or media type: ".csv" and "text/csv" are
+ * CSV; ".jsonl", ".ndjson" and the JSON Lines media types are JSON Lines.
+ * Returns null for anything else.
+ */
+export function batchFormatFor(nameOrType: string): BatchFormat | null {
+  const value = nameOrType.split(";")[0].trim().toLowerCase();
+  if (value === "text/csv" || value.endsWith(".csv")) return "csv";
+  if (
+    ["application/jsonl", "application/x-ndjson", "application/x-jsonlines"].includes(value) ||
+    value.endsWith(".jsonl") ||
+    value.endsWith(".ndjson")
+  ) {
+    return "jsonl";
+  }
+  return null;
+}
+
+/**
+ * Validates and calculates one record.  Nothing it does can throw; every
+ * problem comes back on the result.
+ */
+function runRecord(r: BatchRecord, scheduleSource: Schedule | ScheduleRegistry): BatchCaseResult {
+  const base = { record: r.record, line: r.line, caseId: r.caseId };
+  if (r.parseError) {
+    return { ...base, ok: false, error: { code: "invalid_record", message: r.parseError } };
+  }
+  if (r.value === null || typeof r.value !== "object" || Array.isArray(r.value)) {
+    return { ...base, ok: false, error: { code: "invalid_record", message: "Record must be a JSON object holding the case inputs." } };
+  }
+  const parsed = CaseInputs.safeParse(r.value);
+  if (!parsed.success) {
+    return {
+      ...base,
+      ok: false,
+      error: { code: "validation_failed", message: "Case inputs failed validation.", issues: apiIssues(parsed.error) },
+    };
+  }
+  try {
+    return { ...base, ok: true, outputs: calculateCase(parsed.data, scheduleSource) };
+  } catch (err) {
+    return {
+      ...base,
+      ok: false,
+      error: { code: "calculation_failed", message: err instanceof Error ? err.message : String(err) },
+    };
+  }
+}
+
+/**
+ * Runs every record and totals the results.
+ *
+ * Steps:
+ * 1.  Validate and calculate each record on its own.  A record that cannot
+ *     be read, fails validation, or makes the calculator throw is recorded
+ *     as failed and the run moves on.
+ * 2.  Count successes, failures and each advisory.
+ * 3.  List each failure with its first problem, naming the field when the
+ *     problem came from validation.
+ */
+export function runBatch(records: BatchRecord[], scheduleSource: Schedule | ScheduleRegistry): BatchReport {
+  const results = records.map((r) => runRecord(r, scheduleSource));
+
+  const advisories = Object.fromEntries(Advisory.options.map((a) => [a, 0])) as Record<Advisory, number>;
+  for (const r of results) {
+    if (r.outputs?.advisory) advisories[r.outputs.advisory]++;
+  }
+  const failures = results
+    .filter((r) => r.error)
+    .map((r) => {
+      const first = r.error!.issues?.[0];
+      const message = first
+        ? `${first.path.length ? `${first.path.join(".")}: ` : ""}${first.message}`
+        : r.error!.message;
+      return { record: r.record, line: r.line, caseId: r.caseId, message };
+    });
+
+  return {
+    summary: {
+      total: results.length,
+      succeeded: results.length - failures.length,
+      failed: failures.length,
+      advisories,
+      failures,
+    },
+    results,
+  };
+}
+
+/**
+ * Turns a batch summary into readable lines for a terminal or log: the
+ * totals, any advisories, then one line per failed record.
+ */
+export function formatBatchSummary(summary: BatchSummary): string[] {
+  const lines = [`${summary.total} cases: ${summary.succeeded} succeeded, ${summary.failed} failed.`];
+  for (const [advisory, count] of Object.entries(summary.advisories)) {
+    if (count > 0) lines.push(`${count} flagged ${advisory}.`);
+  }
+  for (const f of summary.failures) {
+    const who = f.caseId ? ` (case ${f.caseId})` : "";
+    lines.push(`record ${f.record}, line ${f.line}${who}: ${f.message}`);
+  }
+  return lines;
+}
+
+/**
+ * Handles a batch request body.  The run itself always answers 200, with
+ * failed records listed in the report; only a body with no records at all
+ * is a bad request (400).
+ */
+export function handleBatchRequest(
+  rawBody: string,
+  format: BatchFormat,
+  scheduleSource: Schedule | ScheduleRegistry
+): ApiResponse<BatchReport> {
+  const records = parseBatchRecords(rawBody, format);
+  if (records.length === 0) {
+    return apiError(400, "invalid_body", "Request body holds no cases.");
+  }
+  return { status: 200, body: runBatch(records, scheduleSource) };
+}
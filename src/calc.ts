@@ -6,11 +6,61 @@
  */
 import * as S from "./schema";
 import * as Schedule from "./schedule";
-import { totalAddOns, splitByShare, directPayTotalForParent, directPayConsistencyWarning } from "./addons";
+import {
+  totalAddOns,
+  splitByShare,
+  allocateAddOns,
+  addOnLines,
+  creditedDirectPayTotal,
+  directPayCategoryWarning,
+  type AddOnAllocation,
+} from "./addons";
 import { sharedStarter } from "./shared";
 import { multifamilyAllowance } from "./multifamily";
+import {
+  selfSupportReserveChecks,
+  selfSupportReduction,
+  selfSupportLines,
+  selfSupportReserveNote,
+  type SelfSupportCheck,
+} from "./selfsupport";
+import { extrapolateBasicObligation, extrapolationNote, type Extrapolation } from "./extrapolation";
+import { computeWorksheetC, worksheetCLines } from "./worksheetc";
+import { itemizeIncome, excludedIncomeNote } from "./income";
+import { incomeForWorksheet, potentialIncomeNote } from "./potential";
+import { extraordinaryMedicalFromCosts, extraordinaryMedicalLines, extraordinaryMedicalNote } from "./medical";
+import { apportionPremium, premiumLines, premiumNote } from "./premium";
+import { computeChildcare, childcareLines, childcareNotes } from "./childcare";
+import {
+  splitHouseholds,
+  netSplitObligations,
+  splitNote,
+  childSpecificAddOns,
+  type SplitHousehold,
+  type SplitNetting,
+} from "./split";
+import { countOvernights, overnightCountNote } from "./parentingtime";
+import { groupChildren, groupingNote, CHILD_GROUP_LABELS, type ChildGroupKind } from "./perchild";
+import {
+  applyDerivativeBenefitsCredit,
+  derivativeBenefitsNote,
+  type DerivativeBenefitsCredit,
+} from "./socialsecurity";
+import { isScheduleRegistry, scheduleForDate, todayIsoDate, type ScheduleRegistry } from "./registry";
 
-type Advisory = "aboveTopOfSchedule" | "redirectedToWorksheetA" | null;
+type Advisory = "aboveTopOfSchedule" | "redirectedToWorksheetA" | "selfSupportReserve" | null;
+
+/**
+ * Worksheet line prefixes for each group of children in a PER_CHILD case.
+ */
+const CHILD_GROUP_PREFIXES: Record<ChildGroupKind, string> = {
+  SHARED: "groupShared_",
+  PRIMARY_P1: "groupP1_",
+  PRIMARY_P2: "groupP2_",
+};
+
+const SELF_SUPPORT_RESERVE_NOTE =
+  "Basic obligation comes from a self-support reserve cell of the schedule (marked * on the printed table).";
 
 /**
  * Shared structure returned by the Worksheet A helper that stops at line 6.
@@ -19,12 +69,15 @@ type PrimaryTotalsResult = {
   path: "WorksheetA";
   advisory: null | "aboveTopOfSchedule";
   basic: number | null;
+  selfSupportReserve: boolean;
+  extrapolation: Extrapolation | null;
   usedRowIncome: number | null;
   p1AAI: number;
   p2AAI: number;
   combinedAAI: number;
   p1Share: number;
   p2Share: number;
+  addOns: AddOnAllocation[];
   addOnsTotal: number;
   totalObligation: number | null;
   p1Obligation: number | null;
@@ -40,15 +93,19 @@ type PrimaryFinalResult = PrimaryTotalsResult & {
   line8_p1Recommended: number | null;
   line8_p2Recommended: number | null;
   line9_recommendedOrder: number | null;
+  derivativeCredits: DerivativeBenefitsCredit[];
+  selfSupport: SelfSupportCheck[];
   note: string | null;
 };
 
 /**
  * Calculates a parent's Adjusted Actual Income (AAI).
  *
- * Start with the parent's monthly income and subtract what the law allows:
+ * Start with the parent's monthly income (or the potential income a court
+ * imputed, in place of or on top of it) and subtract what the law allows:
  * existing support paid for other cases, alimony they pay, and any approved
- * multifamily allowance.  Then add back any alimony they receive in this case.
+ * multifamily allowance.  Then add back any alimony they receive in this case
+ * and any Social Security benefits the children receive on their account.
  * The result is the number shown on line 2 of the worksheets.
  */
 export function adjustedActualIncome(
@@ -56,10 +113,11 @@ export function adjustedActualIncome(
   multifamilyAllowance = 0
 ): number {
   return (
-    p.actualMonthly -
+    incomeForWorksheet(p) -
     p.preexistingSupportPaid -
     p.alimonyPaid +
-    p.alimonyReceived -
+    p.alimonyReceived +
+    (p.socialSecurityDerivativeBenefits ?? 0) -
     multifamilyAllowance
   );
 }
@@ -77,8 +135,10 @@ export function adjustedActualIncome(
  *
  * The function calculates each parent's AAI (including multifamily
  * adjustments), sums them, figures out the income percentages, and consults the
- * statewide schedule to find the basic support obligation.  The returned
- * object mirrors the first few lines of the official worksheets.
+ * statewide schedule to find the basic support obligation.  When the income
+ * is above the table and the case picked an above-schedule method, the basic
+ * amount is the illustrative figure from that method.  The returned object
+ * mirrors the first few lines of the official worksheets.
  */
 export function computeBasic(
   inputs: S.CaseInputs,
@@ -108,12 +168,20 @@ export function computeBasic(
     v.numChildrenThisCase
   );
 
+  // Above the table we only produce an amount when a method was chosen.
+  const extrapolation =
+    basicRes.status === "aboveTop" && v.aboveScheduleMethod
+      ? extrapolateBasicObligation(schedule, combinedAAI, v.numChildrenThisCase, v.aboveScheduleMethod)
+      : null;
+
   // We only return the slice we have so far.
   return {
     // what your UI/tests care about right now:
     path: v.custodyType === "SHARED" ? "WorksheetB" : "WorksheetA",
     basicStatus: basicRes.status,
-    basic: basicRes.amount, // null only if "aboveTop"
+    basic: extrapolation ? extrapolation.amount : basicRes.amount, // null only if "aboveTop" with no method
+    basicSelfSupportReserve: basicRes.selfSupportReserve,
+    extrapolation,
     usedRowIncome: basicRes.usedRowIncome,
 
     // intermediate values (these will later map to line numbers)
@@ -129,8 +197,11 @@ export function computeBasic(
  * Works through Worksheet A up to line 6.
  *
  * Once we have the basic obligation we add the reported add-ons, then divide
- * the total by the parents' income percentages.  If the schedule says we are
- * above the published table we stop and mark the result as discretionary.
+ * the total by the parents' income percentages.  Each add-on category is also
+ * split on its own so the worksheet can show lines 4a–4e per parent.  If the
+ * schedule says we are above the published table we mark the result as
+ * discretionary, and stop there unless an above-schedule method supplied an
+ * illustrative amount.
  */
 export function computePrimaryTotals(
   inputs: S.CaseInputs,
@@ -142,19 +213,23 @@ export function computePrimaryTotals(
 
   // Reuse Step 5 results
   const base = computeBasic(inputs, schedule);
+  const addOns = allocateAddOns(inputs.addOns, inputs.directPay, base.p1Share);
 
-  if (base.basicStatus === "aboveTop" || base.basic == null) {
+  if (base.basic == null) {
     // We can't produce a mandatory amount; return advisory info only.
     return {
       path: "WorksheetA" as const,
       advisory: "aboveTopOfSchedule",
       basic: null,
+      selfSupportReserve: false,
+      extrapolation: null,
       usedRowIncome: null,
       p1AAI: base.p1AAI,
       p2AAI: base.p2AAI,
       combinedAAI: base.combinedAAI,
       p1Share: base.p1Share,
       p2Share: base.p2Share,
+      addOns,
       addOnsTotal: totalAddOns(inputs.addOns),
       totalObligation: null,
       p1Obligation: null,
@@ -170,14 +245,17 @@ export function computePrimaryTotals(
 
   return {
     path: "WorksheetA" as const,
-    advisory: null as null | "aboveTopOfSchedule",
+    advisory: base.basicStatus === "aboveTop" ? "aboveTopOfSchedule" : null,
     basic: base.basic,                     // Worksheet A line 4
+    selfSupportReserve: base.basicSelfSupportReserve,
+    extrapolation: base.extrapolation,
     usedRowIncome: base.usedRowIncome,
     p1AAI: base.p1AAI,                     // line 2 (parent 1)
     p2AAI: base.p2AAI,                     // line 2 (parent 2)
     combinedAAI: base.combinedAAI,         // sum line 2
     p1Share: base.p1Share,                 // line 3 (parent 1 %)
     p2Share: base.p2Share,                 // line 3 (parent 2 %)
+    addOns,                                // A-4a..A-4e, split per parent
     addOnsTotal,                           // A-4a..A-4e summed
     totalObligation,                       // Worksheet A line 5 = basic + add-ons
     p1Obligation: p1,                      // Worksheet A line 6 (parent 1)
@@ -188,10 +266,14 @@ export function computePrimaryTotals(
 /**
  * Completes Worksheet A by applying direct payments and naming the payor.
  *
- * The function subtracts each parent's direct payments (line 7) from their
- * share (line 6), never dropping below zero, and then selects the amount owed
- * by the non-custodial parent (line 9).  We also keep an optional note if the
- * direct payments do not match the declared add-ons.
+ * The function subtracts each parent's direct payments (line 7) and any
+ * Social Security derivative benefits credit from their share (line 6),
+ * never dropping below zero, and then selects the amount owed by the
+ * non-custodial parent (line 9).  Direct payments are credited one category
+ * at a time, never for more than that category's amount.  Before bringing
+ * line 9 down we make sure the paying parent keeps the self-support reserve,
+ * when the case sets one.  We also keep an optional note if the direct
+ * payments do not match the declared add-ons.
  */
 export function computePrimaryFinal(
   inputs: S.CaseInputs,
@@ -204,7 +286,7 @@ export function computePrimaryFinal(
   // Build on Step 6 results (line 2,3,4,5,6 already computed)
   const t = computePrimaryTotals(inputs, schedule);
 
-  if (t.advisory === "aboveTopOfSchedule") {
+  if (t.basic == null) {
     // Still discretionary; pass through with advisory
     return {
       ...t,
@@ -213,24 +295,40 @@ export function computePrimaryFinal(
       line8_p1Recommended: null as number | null,
       line8_p2Recommended: null as number | null,
       line9_recommendedOrder: null as number | null,
+      derivativeCredits: [],
+      selfSupport: [],
       note: "Above top of schedule; court discretion.",
     };
   }
 
-  // Line 7: direct pay per parent
-  const p1Direct = directPayTotalForParent(inputs.directPay.parent1);
-  const p2Direct = directPayTotalForParent(inputs.directPay.parent2);
+  // Line 7: direct pay per parent, credited category by category so no
+  // payment counts for more than the expense it pays
+  const p1Direct = creditedDirectPayTotal(t.addOns, "P1");
+  const p2Direct = creditedDirectPayTotal(t.addOns, "P2");
+
+  // Optional soft warning naming any category whose direct payments differ
+  // from the amount reported for it
+  const note = directPayCategoryWarning(t.addOns);
 
-  // Optional soft warning if the direct-pay sum differs widely from addOnsTotal
-  const note = directPayConsistencyWarning(t.addOnsTotal!, p1Direct, p2Direct);
+  // Line 8: recommended per parent (never below zero), less any Social
+  // Security derivative benefits credited to that parent.
+  const p1Net = Math.max(0, (t.p1Obligation ?? 0) - p1Direct);
+  const p2Net = Math.max(0, (t.p2Obligation ?? 0) - p2Direct);
+  const p1Credit = applyDerivativeBenefitsCredit("P1", inputs.parent1.socialSecurityDerivativeBenefits, p1Net);
+  const p2Credit = applyDerivativeBenefitsCredit("P2", inputs.parent2.socialSecurityDerivativeBenefits, p2Net);
+  const p1Rec = p1Credit ? p1Credit.obligationAfter : p1Net;
+  const p2Rec = p2Credit ? p2Credit.obligationAfter : p2Net;
 
-  // Line 8: recommended per parent (never below zero)
-  const p1Rec = Math.max(0, (t.p1Obligation ?? 0) - p1Direct);
-  const p2Rec = Math.max(0, (t.p2Obligation ?? 0) - p2Direct);
+  // Line 8a: each parent must keep the self-support reserve after what they
+  // pay; only the non-custodial parent pays through the order.
+  const payor = inputs.primaryCustodian === "P1" ? "P2" : "P1";
+  const payorRec = payor === "P1" ? p1Rec : p2Rec;
+  const selfSupport = inputs.selfSupportReserve == null
+    ? []
+    : selfSupportReserveChecks({ P1: t.p1AAI, P2: t.p2AAI }, payor, payorRec, inputs.selfSupportReserve);
 
   // Line 9: bring down the non-custodial parent's amount
-  const nonCustodialPays =
-    inputs.primaryCustodian === "P1" ? p2Rec : p1Rec;
+  const nonCustodialPays = payorRec - selfSupportReduction(selfSupport);
 
   return {
     ...t,
@@ -239,6 +337,8 @@ export function computePrimaryFinal(
     line8_p1Recommended: p1Rec,
     line8_p2Recommended: p2Rec,
     line9_recommendedOrder: nonCustodialPays,
+    derivativeCredits: [p1Credit, p2Credit].filter((c): c is DerivativeBenefitsCredit => c != null),
+    selfSupport,
     note,
   };
 }
@@ -293,12 +393,16 @@ type SharedFinalResult =
     }
   | {
       kind: "computed";
-      advisory: null;
+      advisory: null | "aboveTopOfSchedule";
+      selfSupportReserve: boolean;
+      extrapolation: Extrapolation | null;
       payor: "P1" | "P2" | null;
       recommended: number;
       note: string | null;
       worksheet: Record<string, number>;
       capApplied: null | { before: number; after: number; primary: number | null };
+      derivativeCredits: DerivativeBenefitsCredit[];
+      selfSupport: SelfSupportCheck[];
     };
 
 /**
@@ -308,7 +412,8 @@ type SharedFinalResult =
  * - announce that the case is above the schedule,
  * - redirect to Worksheet A when the shared threshold fails, or
  * - produce the full Worksheet B results, including the statutory cap that
- *   prevents shared support from exceeding the primary amount.
+ *   prevents shared support from exceeding the primary amount and the
+ *   self-support reserve check for the paying parent.
  */
 export function computeSharedFinal(
   inputs: S.CaseInputs,
@@ -320,10 +425,10 @@ export function computeSharedFinal(
 
   const starter = sharedStarter(inputs, schedule, computeBasic);
 
-  if (starter.advisory === "aboveTopOfSchedule") {
-    // The combined income exceeds the published table, so we report that the
-    // amount is discretionary and include the preliminary worksheet numbers for
-    // transparency.
+  if (starter.basic == null) {
+    // The combined income exceeds the published table and no above-schedule
+    // method was chosen, so we report that the amount is discretionary and
+    // include the preliminary worksheet numbers for transparency.
     return {
       kind: "advisory",
       advisory: "aboveTopOfSchedule",
@@ -383,23 +488,37 @@ export function computeSharedFinal(
   const line11_p1 = Math.max(0, line9_p1 - line10_p1);
   const line11_p2 = Math.max(0, line9_p2 - line10_p2);
 
-  // Line 13: divide the add-ons by income share.
+  // Line 12: net the two theoretical amounts and place the difference under
+  // the parent who owes more.
+  const netBasic = line11_p1 - line11_p2;
+  const line12_p1 = Math.max(0, netBasic);
+  const line12_p2 = Math.max(0, -netBasic);
+
+  // Lines 13a–13e: split each add-on category by income share, then total
+  // them on line 13.
+  const addOns = allocateAddOns(inputs.addOns, inputs.directPay, p1Share);
   const addOnsTotal = totalAddOns(inputs.addOns);
   const addOnShares = splitByShare(addOnsTotal, p1Share);
 
-  const line14_p1 = line11_p1 + addOnShares.p1;
-  const line14_p2 = line11_p2 + addOnShares.p2;
-
-  // Line 15: subtract direct payments that the parents already make.
-  const p1Direct = directPayTotalForParent(inputs.directPay.parent1);
-  const p2Direct = directPayTotalForParent(inputs.directPay.parent2);
+  const note = directPayCategoryWarning(addOns);
 
-  const note = directPayConsistencyWarning(addOnsTotal, p1Direct, p2Direct);
+  // Line 14: Worksheet C compares the line 13 shares with what each parent
+  // paid directly.  Its line l lands in the column of the parent who owes it.
+  const worksheetC = computeWorksheetC(addOns);
+  const line14_p1 = worksheetC.owedBy === "P1" ? worksheetC.netAdjustment : 0;
+  const line14_p2 = worksheetC.owedBy === "P2" ? worksheetC.netAdjustment : 0;
 
-  const line15_p1 = Math.max(0, line14_p1 - p1Direct);
-  const line15_p2 = Math.max(0, line14_p2 - p2Direct);
+  // Line 15: bring down the net basic obligation from line 12, less any
+  // Social Security derivative benefits credited to the parent who owes it.
+  const p1Credit = applyDerivativeBenefitsCredit("P1", inputs.parent1.socialSecurityDerivativeBenefits, line12_p1);
+  const p2Credit = applyDerivativeBenefitsCredit("P2", inputs.parent2.socialSecurityDerivativeBenefits, line12_p2);
+  const derivativeCredits = [p1Credit, p2Credit].filter((c): c is DerivativeBenefitsCredit => c != null);
+  const line15_p1 = p1Credit ? p1Credit.obligationAfter : line12_p1;
+  const line15_p2 = p2Credit ? p2Credit.obligationAfter : line12_p2;
 
-  const diff = line15_p1 - line15_p2;
+  // Line 16: amounts owed by the same parent add together; amounts owed by
+  // different parents offset, and the larger one decides who pays.
+  const diff = (line14_p1 + line15_p1) - (line14_p2 + line15_p2);
   let payor: "P1" | "P2" | null = null;
   let recommended = 0;
   if (Math.abs(diff) > 1e-6) {
@@ -419,12 +538,14 @@ export function computeSharedFinal(
   if (payor) {
     // Maryland caps Worksheet B at the comparable Worksheet A amount.  We rerun
     // the primary calculator with the non-payor as the primary custodian and
-    // trim the shared result if needed.
+    // trim the shared result if needed.  The reserve check runs afterwards, so
+    // the comparison uses the primary amount before any reserve reduction.
     const primaryCustodian = payor === "P1" ? "P2" : "P1";
     const primaryInputs: S.CaseInputs = {
       ...inputs,
       custodyType: "PRIMARY",
       primaryCustodian,
+      selfSupportReserve: undefined,
     };
     const primaryResult = computePrimaryFinal(primaryInputs, schedule);
     const primaryAmount = primaryResult.line9_recommendedOrder ?? null;
@@ -435,12 +556,25 @@ export function computeSharedFinal(
     }
   }
 
+  // Line 16a: each parent must keep the self-support reserve after what they
+  // pay, which is nothing for the parent who is paid.
+  const selfSupport = inputs.selfSupportReserve == null
+    ? []
+    : selfSupportReserveChecks(
+        { P1: starter.p1AAI, P2: starter.p2AAI },
+        payor,
+        recommended,
+        inputs.selfSupportReserve
+      );
+  recommended -= selfSupportReduction(selfSupport);
+
   const worksheet: Record<string, number> = {
     line2_p1AAI: starter.p1AAI,
     line2_p2AAI: starter.p2AAI,
     line3_p1Share: p1Share,
     line3_p2Share: p2Share,
     line4_basic: starter.basic ?? 0,
+    ...extrapolationLines(starter.extrapolation),
     line5_adjustedBasic: adjustedBasic,
     line6_overnightsP1: p1Overnights,
     line6_overnightsP2: p2Overnights,
@@ -454,70 +588,362 @@ export function computeSharedFinal(
     line10_p2Adjustment: line10_p2,
     line11_p1AfterAdjustment: line11_p1,
     line11_p2AfterAdjustment: line11_p2,
+    line12_p1NetBasic: line12_p1,
+    line12_p2NetBasic: line12_p2,
+    ...addOnLines(13, addOns),
     line13_totalAddOns: addOnsTotal,
     line13_p1Share: addOnShares.p1,
     line13_p2Share: addOnShares.p2,
-    line14_p1Total: line14_p1,
-    line14_p2Total: line14_p2,
-    line15_p1DirectPay: p1Direct,
-    line15_p2DirectPay: p2Direct,
-    line15_p1Recommended: line15_p1,
-    line15_p2Recommended: line15_p2,
+    line14_p1WorksheetC: line14_p1,
+    line14_p2WorksheetC: line14_p2,
+    ...derivativeCreditLines(15, derivativeCredits),
+    line15_p1NetBasic: line15_p1,
+    line15_p2NetBasic: line15_p2,
     line16_beforeCap: payor ? beforeCap : 0,
+    ...worksheetCLines(worksheetC),
+    ...selfSupportLines("line16a_", selfSupport),
   };
 
   return {
     kind: "computed",
-    advisory: null,
+    advisory: starter.advisory,
+    selfSupportReserve: starter.selfSupportReserve,
+    extrapolation: starter.extrapolation,
     note,
     payor,
     recommended,
     capApplied,
+    derivativeCredits,
+    selfSupport,
     worksheet,
   };
 }
 
+/**
+ * A split-custody result: one finished Worksheet A per household, the two
+ * amounts netted, and the reserve check on whatever is left.  "advisory" is
+ * set when either household is above the schedule with no amount.
+ */
+type SplitFinalResult = {
+  households: Array<SplitHousehold & { result: PrimaryFinalResult }>;
+  advisory: null | "aboveTopOfSchedule";
+  netting: SplitNetting | null;
+  recommended: number;
+  selfSupport: SelfSupportCheck[];
+  note: string | null;
+};
+
+/**
+ * Runs a split-custody case, where each parent has primary custody of at
+ * least one child.
+ *
+ * Steps:
+ * 1.  Run Worksheet A for the children living with Parent 1 (Parent 2 pays)
+ *     and again for the children living with Parent 2 (Parent 1 pays).
+ * 2.  If either household is above the schedule with no amount, stop there;
+ *     the court decides.
+ * 3.  Net the two amounts; the parent who owes more pays the difference.
+ * 4.  The paying parent must keep the self-support reserve, when the case
+ *     sets one.
+ */
+export function computeSplitFinal(
+  inputs: S.CaseInputs,
+  schedule: Schedule.Schedule
+): SplitFinalResult {
+  if (inputs.custodyType !== "SPLIT") {
+    throw new Error('computeSplitFinal expects custodyType "SPLIT"');
+  }
+
+  const households = splitHouseholds(inputs).map((h) => ({
+    ...h,
+    result: computePrimaryFinal(h.inputs, schedule),
+  }));
+  const [withP1, withP2] = households;
+  const note = directPayCategoryWarning(
+    allocateAddOns(inputs.addOns, inputs.directPay, withP1.result.p1Share)
+  );
+
+  const p2Owes = withP1.result.line9_recommendedOrder;
+  const p1Owes = withP2.result.line9_recommendedOrder;
+  if (p1Owes == null || p2Owes == null) {
+    return { households, advisory: "aboveTopOfSchedule", netting: null, recommended: 0, selfSupport: [], note };
+  }
+
+  const netting = netSplitObligations(p1Owes, p2Owes);
+  const selfSupport = inputs.selfSupportReserve == null
+    ? []
+    : selfSupportReserveChecks(
+        { P1: withP1.result.p1AAI, P2: withP1.result.p2AAI },
+        netting.payor,
+        netting.amount,
+        inputs.selfSupportReserve
+      );
+  const recommended = netting.amount - selfSupportReduction(selfSupport);
+
+  const advisory =
+    withP1.result.advisory === "aboveTopOfSchedule" || withP2.result.advisory === "aboveTopOfSchedule"
+      ? "aboveTopOfSchedule"
+      : null;
+  return { households, advisory, netting, recommended, selfSupport, note };
+}
+
+/**
+ * Worksheet lines that show how an above-schedule amount was reached: the top
+ * row of the table and, for the percentage and marginal methods, the rate used
+ * to stretch it.  Returns no lines when the amount came straight from the table.
+ */
+function extrapolationLines(e: Extrapolation | null): Record<string, number> {
+  if (!e) return {};
+  const lines: Record<string, number> = {
+    line4_scheduleTopIncome: e.topRowIncome,
+    line4_scheduleTopAmount: e.topRowAmount,
+  };
+  if (e.rate != null) lines.line4_extrapolationRate = e.rate;
+  return lines;
+}
+
+/**
+ * Worksheet lines for Social Security derivative benefits credits, one per
+ * parent who has them, on the line the credit comes off (8 on Worksheet A,
+ * 15 on Worksheet B).
+ */
+function derivativeCreditLines(line: number, credits: DerivativeBenefitsCredit[]): Record<string, number> {
+  const lines: Record<string, number> = {};
+  for (const c of credits) {
+    lines[`line${line}_${c.parent === "P1" ? "p1" : "p2"}SocialSecurityCredit`] = c.credit;
+  }
+  return lines;
+}
+
+/**
+ * Lays a finished Worksheet A out as the worksheet bag.  "detail" holds the
+ * lines that show how the add-ons were reached; they sit with the line 4
+ * add-ons.  Lines with no amount (above the schedule) are left out.
+ */
+function primaryWorksheetLines(
+  result: PrimaryFinalResult,
+  detail: Record<string, number>
+): Record<string, number> {
+  const worksheet: Record<string, number> = {};
+  const assign = (key: string, value: number | null | undefined) => {
+    if (typeof value === "number") worksheet[key] = value;
+  };
+  assign("line2_p1AAI", result.p1AAI);
+  assign("line2_p2AAI", result.p2AAI);
+  assign("line3_p1Share", result.p1Share);
+  assign("line3_p2Share", result.p2Share);
+  assign("line4_basic", result.basic ?? null);
+  for (const [key, value] of Object.entries(extrapolationLines(result.extrapolation))) assign(key, value);
+  for (const [key, value] of Object.entries(addOnLines(4, result.addOns))) assign(key, value);
+  for (const [key, value] of Object.entries(detail)) assign(key, value);
+  assign("line5_totalObligation", result.totalObligation ?? null);
+  assign("line6_p1Obligation", result.p1Obligation ?? null);
+  assign("line6_p2Obligation", result.p2Obligation ?? null);
+  assign("line7_p1DirectPay", result.line7_p1DirectPay ?? null);
+  assign("line7_p2DirectPay", result.line7_p2DirectPay ?? null);
+  for (const [key, value] of Object.entries(derivativeCreditLines(8, result.derivativeCredits))) assign(key, value);
+  assign("line8_p1Recommended", result.line8_p1Recommended ?? null);
+  assign("line8_p2Recommended", result.line8_p2Recommended ?? null);
+  for (const [key, value] of Object.entries(selfSupportLines("line8a_", result.selfSupport))) assign(key, value);
+  assign("line9_recommendedOrder", result.line9_recommendedOrder ?? null);
+  return worksheet;
+}
+
+/**
+ * Settles which table a case uses.  A single schedule is used as given
+ * (through its compiled copy, so every lookup reads the table that was
+ * checked); a registry hands back the table in force on the case's "as of"
+ * date (today when none is given).  Either way we report the table's version
+ * label.
+ */
+function resolveSchedule(
+  source: Schedule.Schedule | ScheduleRegistry,
+  asOfDate: string | undefined
+): { schedule: Schedule.Schedule; version: string | null } {
+  if (isScheduleRegistry(source)) {
+    const v = scheduleForDate(source, asOfDate ?? todayIsoDate());
+    return { schedule: v.schedule, version: v.version };
+  }
+  const version = source.meta?.version;
+  return { schedule: Schedule.compileSchedule(source), version: typeof version === "string" ? version : null };
+}
+
 /**
  * User-friendly wrapper that accepts case inputs and returns the final order.
  *
- * This is the primary function external callers will use.  It decides which
+ * This is the primary function external callers will use.  It picks the
+ * schedule (directly, or from a registry by the "as of" date), decides which
  * worksheet to run, collects a tidy "worksheet" bag of numbers for display, and
- * records any notes or advisories for the user.
+ * records any notes or advisories for the user.  Amounts entered at another
+ * pay frequency were already converted when the inputs were parsed; we pass
+ * that record through so the outputs show both figures, along with each
+ * parent's itemized income when it was given by source.
  */
 export function calculateCase(
   inputs: S.CaseInputs,
-  schedule: Schedule.Schedule
+  scheduleSource: Schedule.Schedule | ScheduleRegistry
 ): S.CaseOutputs {
   const notes: string[] = [];
+  const { schedule, version: scheduleVersion } = resolveSchedule(scheduleSource, inputs.asOfDate);
+  const frequencyConversions = inputs.frequencyConversions ?? [];
+  const incomeItemization = {
+    parent1: inputs.parent1.incomeSources ? itemizeIncome(inputs.parent1.incomeSources) : null,
+    parent2: inputs.parent2.incomeSources ? itemizeIncome(inputs.parent2.incomeSources) : null,
+  };
+
+  // Large families share the schedule's open-ended top column; say so.
+  const childrenColumn = Schedule.childrenColumnKey(schedule, inputs.numChildrenThisCase);
+  if (childrenColumn !== String(inputs.numChildrenThisCase)) {
+    notes.push(
+      `${inputs.numChildrenThisCase} children in this case; using the schedule's "${childrenColumn} or more" column.`
+    );
+  }
+  for (const [who, itemization] of [["P1", incomeItemization.parent1], ["P2", incomeItemization.parent2]] as const) {
+    const note = excludedIncomeNote(who, itemization);
+    if (note) notes.push(note);
+  }
+  for (const [who, parent] of [["P1", inputs.parent1], ["P2", inputs.parent2]] as const) {
+    const note = potentialIncomeNote(who, parent);
+    if (note) notes.push(note);
+  }
+
+  if (inputs.parentingPlan) {
+    notes.push(overnightCountNote(inputs.parentingPlan, countOvernights(inputs.parentingPlan)));
+  }
+
+  // Per-child medical costs were already cut down to the qualifying amount
+  // when the inputs were parsed; work the split out again for display.
+  const medical = inputs.addOns.uninsuredMedicalByChild
+    ? extraordinaryMedicalFromCosts(inputs.addOns.uninsuredMedicalByChild)
+    : null;
+  const medicalNote = extraordinaryMedicalNote(medical);
+  if (medicalNote) notes.push(medicalNote);
+  // Likewise the children's share of a family premium was already filled in;
+  // keep the derivation for the worksheet detail.
+  const premium = inputs.healthInsurancePremium ? apportionPremium(inputs.healthInsurancePremium) : null;
+  if (premium) notes.push(premiumNote(premium));
+  const childcare = inputs.childcare ? computeChildcare(inputs.childcare) : null;
+  notes.push(...childcareNotes(childcare));
+  // Lines showing how those add-ons were reached, under line 4 or 13.
+  const addOnDetail = (line: number) => ({
+    ...childcareLines(line, childcare),
+    ...premiumLines(line, premium),
+    ...extraordinaryMedicalLines(line, medical),
+  });
+
+  return {
+    ...runWorksheet(inputs, schedule, addOnDetail, notes),
+    scheduleVersion,
+    frequencyConversions,
+    incomeItemization,
+  };
+}
+
+/**
+ * The part of the outputs that depends on which worksheet ran.
+ */
+type WorksheetOutcome = Pick<
+  S.CaseOutputs,
+  "recommendedOrderParent1PaysParent2" | "payor" | "path" | "worksheet" | "notes" | "advisory"
+>;
+
+/**
+ * Runs the worksheet the custody type calls for and lays out its lines,
+ * adding that worksheet's notes to "notes".  "addOnDetail" supplies the lines
+ * showing how the add-ons were reached, for line 4 or line 13.
+ */
+function runWorksheet(
+  inputs: S.CaseInputs,
+  schedule: Schedule.Schedule,
+  addOnDetail: (line: number) => Record<string, number>,
+  notes: string[]
+): WorksheetOutcome {
+  if (inputs.custodyType === "PER_CHILD") {
+    // Sort the children by overnights.  One group is simply the whole case;
+    // several groups each run their own worksheet under their own prefix and
+    // the amounts are added together.  The add-on detail covers the family.
+    const groups = groupChildren(inputs);
+    notes.push(groupingNote(groups, inputs));
+    if (groups.length === 1) return runWorksheet(groups[0].inputs, schedule, addOnDetail, notes);
+
+    const worksheet: Record<string, number> = { ...addOnDetail(4) };
+    let combined = 0;
+    let advisory: S.CaseOutputs["advisory"] = null;
+    let groupWithoutAmount = false;
+    for (const g of groups) {
+      const prefix = CHILD_GROUP_PREFIXES[g.kind];
+      const groupNotes: string[] = [];
+      const outcome = runWorksheet(g.inputs, schedule, () => ({}), groupNotes);
+      const label = `${g.children.length === 1 ? "Child" : "Children"} ${g.children.join(", ")}, ${CHILD_GROUP_LABELS[g.kind]}`;
+      for (const note of groupNotes) notes.push(`${label}: ${note}`);
+      worksheet[`${prefix}children`] = g.children.length;
+      for (const [key, value] of Object.entries(outcome.worksheet)) worksheet[`${prefix}${key}`] = value;
+      worksheet[`${prefix}orderP1PaysP2`] = outcome.recommendedOrderParent1PaysParent2;
+      combined += outcome.recommendedOrderParent1PaysParent2;
+      if (outcome.advisory === "aboveTopOfSchedule") advisory = "aboveTopOfSchedule";
+      else if (!advisory && outcome.advisory === "selfSupportReserve") advisory = "selfSupportReserve";
+      // A group above the schedule with no method has no basic obligation.
+      if (outcome.worksheet.line4_basic === undefined) groupWithoutAmount = true;
+    }
+
+    // Like split custody: if any group has no amount, there is nothing to
+    // add up; the court decides.
+    if (groupWithoutAmount) {
+      notes.push("Above top of schedule; court discretion.");
+      return {
+        recommendedOrderParent1PaysParent2: 0,
+        payor: null,
+        path: "PerChildWorksheets",
+        worksheet,
+        notes,
+        advisory: "aboveTopOfSchedule",
+      };
+    }
+    worksheet.combined_orderP1PaysP2 = combined;
+
+    // Each parent must keep the self-support reserve, checked once against
+    // the combined amount.
+    const payor = Math.abs(combined) <= 1e-6 ? null : combined > 0 ? "P1" : "P2";
+    const aai = (parent: S.ParentIncome) => adjustedActualIncome(parent, multifamilyAllowance(schedule, parent));
+    const checks = inputs.selfSupportReserve == null
+      ? []
+      : selfSupportReserveChecks(
+          { P1: aai(inputs.parent1), P2: aai(inputs.parent2) },
+          payor,
+          Math.abs(combined),
+          inputs.selfSupportReserve
+        );
+    Object.assign(worksheet, selfSupportLines("combined_", checks));
+    const reserveNote = selfSupportReserveNote(checks);
+    if (reserveNote) notes.push(reserveNote);
+    const recommended = Math.abs(combined) - selfSupportReduction(checks);
+    worksheet.combined_recommendedOrder = recommended;
+
+    return {
+      recommendedOrderParent1PaysParent2: payor === "P1" ? recommended : payor === "P2" ? -recommended : 0,
+      payor,
+      path: "PerChildWorksheets",
+      worksheet,
+      notes,
+      advisory,
+    };
+  }
 
   if (inputs.custodyType === "PRIMARY") {
     // Run Worksheet A to completion and collect the intermediate values.
     const result = computePrimaryFinal(inputs, schedule);
     if (result.note) notes.push(result.note);
-    const payor = result.advisory === "aboveTopOfSchedule"
+    for (const c of result.derivativeCredits) notes.push(derivativeBenefitsNote(c));
+    if (result.extrapolation) notes.push(extrapolationNote(result.extrapolation));
+    if (result.selfSupportReserve) notes.push(SELF_SUPPORT_RESERVE_NOTE);
+    const reserveNote = selfSupportReserveNote(result.selfSupport);
+    if (reserveNote) notes.push(reserveNote);
+    const payor = result.line9_recommendedOrder == null
       ? null
       : inputs.primaryCustodian === "P1" ? "P2" : "P1";
     const amount = result.line9_recommendedOrder ?? 0;
     const oriented = payor === "P1" ? amount : payor === "P2" ? -amount : 0;
-    const worksheet: Record<string, number> = {};
-    const assign = (key: string, value: number | null | undefined) => {
-      if (typeof value === "number") {
-        worksheet[key] = value;
-      }
-    };
-    assign("line2_p1AAI", result.p1AAI);
-    assign("line2_p2AAI", result.p2AAI);
-    assign("line3_p1Share", result.p1Share);
-    assign("line3_p2Share", result.p2Share);
-    assign("line4_basic", result.basic ?? null);
-    assign("line5_totalObligation", result.totalObligation ?? null);
-    assign("line6_p1Obligation", result.p1Obligation ?? null);
-    assign("line6_p2Obligation", result.p2Obligation ?? null);
-    assign("line7_p1DirectPay", result.line7_p1DirectPay ?? null);
-    assign("line7_p2DirectPay", result.line7_p2DirectPay ?? null);
-    assign("line8_p1Recommended", result.line8_p1Recommended ?? null);
-    assign("line8_p2Recommended", result.line8_p2Recommended ?? null);
-    assign("line9_recommendedOrder", result.line9_recommendedOrder ?? null);
+    const worksheet = primaryWorksheetLines(result, addOnDetail(4));
 
     return {
       recommendedOrderParent1PaysParent2: oriented,
@@ -525,7 +951,64 @@ export function calculateCase(
       path: "WorksheetA",
       worksheet,
       notes,
-      advisory: result.advisory,
+      advisory: result.advisory ?? (result.selfSupportReserve ? "selfSupportReserve" : null),
+    };
+  }
+
+  if (inputs.custodyType === "SPLIT") {
+    // One Worksheet A per household, each under its own prefix, then the
+    // netting lines.  The add-on detail covers the whole family.
+    const split = computeSplitFinal(inputs, schedule);
+    if (split.note) notes.push(split.note);
+    const worksheet: Record<string, number> = { ...addOnDetail(4) };
+    split.households.forEach((h, i) => {
+      const prefix = `household${i + 1}_`;
+      const payor = h.custodian === "P1" ? "P2" : "P1";
+      const result: PrimaryFinalResult = {
+        ...h.result,
+        derivativeCredits: h.result.derivativeCredits.filter((c) => c.parent === payor),
+      };
+      worksheet[`${prefix}children`] = h.children;
+      for (const [key, value] of Object.entries(primaryWorksheetLines(result, {}))) {
+        worksheet[`${prefix}${key}`] = value;
+      }
+      const where = `Children living with ${h.custodian}`;
+      for (const c of result.derivativeCredits) notes.push(`${where}: ${derivativeBenefitsNote(c)}`);
+      if (h.result.extrapolation) notes.push(`${where}: ${extrapolationNote(h.result.extrapolation)}`);
+      if (h.result.selfSupportReserve) notes.push(`${where}: ${SELF_SUPPORT_RESERVE_NOTE}`);
+    });
+
+    if (!split.netting) {
+      notes.push("Above top of schedule; court discretion.");
+      return {
+        recommendedOrderParent1PaysParent2: 0,
+        payor: null,
+        path: "SplitWorksheetA",
+        worksheet,
+        notes,
+        advisory: "aboveTopOfSchedule",
+      };
+    }
+
+    const [withP1, withP2] = split.households;
+    notes.push(splitNote(split.netting, withP1.children, withP2.children, childSpecificAddOns(inputs)));
+    worksheet.split_p1Obligation = split.netting.p1Owes;
+    worksheet.split_p2Obligation = split.netting.p2Owes;
+    Object.assign(worksheet, selfSupportLines("split_", split.selfSupport));
+    worksheet.split_recommendedOrder = split.recommended;
+    const reserveNote = selfSupportReserveNote(split.selfSupport);
+    if (reserveNote) notes.push(reserveNote);
+
+    const payor = split.netting.payor;
+    const oriented = payor === "P1" ? split.recommended : payor === "P2" ? -split.recommended : 0;
+    const fromReserveCell = split.households.some((h) => h.result.selfSupportReserve);
+    return {
+      recommendedOrderParent1PaysParent2: oriented,
+      payor,
+      path: "SplitWorksheetA",
+      worksheet,
+      notes,
+      advisory: split.advisory ?? (fromReserveCell ? "selfSupportReserve" : null),
     };
   }
 
@@ -537,28 +1020,17 @@ export function calculateCase(
     notes.push(sharedResult.note);
     const primary = sharedResult.primaryResult;
     if (primary.note) notes.push(primary.note);
-    const payor = primary.advisory === "aboveTopOfSchedule"
+    for (const c of primary.derivativeCredits) notes.push(derivativeBenefitsNote(c));
+    if (primary.extrapolation) notes.push(extrapolationNote(primary.extrapolation));
+    if (primary.selfSupportReserve) notes.push(SELF_SUPPORT_RESERVE_NOTE);
+    const reserveNote = selfSupportReserveNote(primary.selfSupport);
+    if (reserveNote) notes.push(reserveNote);
+    const payor = primary.line9_recommendedOrder == null
       ? null
       : sharedResult.primaryCustodian === "P1" ? "P2" : "P1";
     const amount = primary.line9_recommendedOrder ?? 0;
     const oriented = payor === "P1" ? amount : payor === "P2" ? -amount : 0;
-    const worksheet: Record<string, number> = {};
-    const assign = (key: string, value: number | null | undefined) => {
-      if (typeof value === "number") worksheet[key] = value;
-    };
-    assign("line2_p1AAI", primary.p1AAI);
-    assign("line2_p2AAI", primary.p2AAI);
-    assign("line3_p1Share", primary.p1Share);
-    assign("line3_p2Share", primary.p2Share);
-    assign("line4_basic", primary.basic ?? null);
-    assign("line5_totalObligation", primary.totalObligation ?? null);
-    assign("line6_p1Obligation", primary.p1Obligation ?? null);
-    assign("line6_p2Obligation", primary.p2Obligation ?? null);
-    assign("line7_p1DirectPay", primary.line7_p1DirectPay ?? null);
-    assign("line7_p2DirectPay", primary.line7_p2DirectPay ?? null);
-    assign("line8_p1Recommended", primary.line8_p1Recommended ?? null);
-    assign("line8_p2Recommended", primary.line8_p2Recommended ?? null);
-    assign("line9_recommendedOrder", primary.line9_recommendedOrder ?? null);
+    const worksheet = primaryWorksheetLines(primary, addOnDetail(4));
 
     return {
       recommendedOrderParent1PaysParent2: oriented,
@@ -566,7 +1038,7 @@ export function calculateCase(
       path: "WorksheetA",
       worksheet,
       notes,
-      advisory: "redirectedToWorksheetA",
+      advisory: primary.advisory ?? "redirectedToWorksheetA",
     };
   }
 
@@ -583,13 +1055,19 @@ export function calculateCase(
   }
 
   const shared = sharedResult;
+  Object.assign(shared.worksheet, addOnDetail(13));
   if (shared.note) notes.push(shared.note);
+  for (const c of shared.derivativeCredits) notes.push(derivativeBenefitsNote(c));
+  if (shared.extrapolation) notes.push(extrapolationNote(shared.extrapolation));
+  if (shared.selfSupportReserve) notes.push(SELF_SUPPORT_RESERVE_NOTE);
   if (shared.capApplied && shared.capApplied.primary != null && Math.abs(shared.capApplied.before - shared.capApplied.after) > 1e-6) {
     notes.push(
       `Shared result capped at ${shared.capApplied.primary?.toFixed(2)} (primary custody equivalent).`
     );
     shared.worksheet.line16_cappedAmount = shared.capApplied.after;
   }
+  const reserveNote = selfSupportReserveNote(shared.selfSupport);
+  if (reserveNote) notes.push(reserveNote);
 
   // Positive values mean Parent 1 pays Parent 2; negative values reverse it.
   const oriented = shared.payor === "P1"
@@ -604,6 +1082,6 @@ export function calculateCase(
     path: "WorksheetB",
     worksheet: shared.worksheet,
     notes,
-    advisory: shared.advisory,
+    advisory: shared.advisory ?? (shared.selfSupportReserve ? "selfSupportReserve" : null),
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,127 @@
+/**
+ * Childcare helpers.  Line A-4a / 13a is work-related childcare, and the
+ * guidelines expect it to be the actual cost, reasonable in amount, and
+ * looked at with tax credits in mind.  These helpers build the monthly figure
+ * from each provider's hours and rate, flag children whose care costs more
+ * than a ceiling the user supplies, and take off an assumed dependent-care
+ * tax credit when one is given.
+ */
+import type { Childcare } from "./schema";
+
+/**
+ * Yearly expenses the federal dependent-care credit can be claimed on: one
+ * child, or two or more children.
+ */
+export const DEPENDENT_CARE_EXPENSE_LIMITS = { oneChild: 3000, twoOrMore: 6000 };
+
+/**
+ * One provider's cost for one child, per month.
+ */
+export type ChildcareLine = {
+  child: number;
+  provider: string;
+  hoursPerWeek: number;
+  hourlyRate: number;
+  monthly: number;
+};
+
+/**
+ * The whole childcare picture.  Every amount is monthly; "net" is what goes
+ * on line A-4a or 13a.  "overCeiling" lists the children whose combined care
+ * costs more than the ceiling, when one was supplied.
+ */
+export type ChildcareCost = {
+  paidBy: "P1" | "P2";
+  lines: ChildcareLine[];
+  perChild: Array<{ child: number; monthly: number }>;
+  gross: number;
+  ceilingPerChild: number | null;
+  overCeiling: Array<{ child: number; monthly: number }>;
+  taxCreditRate: number | null;
+  taxCreditOffset: number;
+  net: number;
+};
+
+/**
+ * Works out the monthly childcare cost.
+ *
+ * Steps:
+ * 1.  For each provider, multiply hours per week by the hourly rate and
+ *     turn the weekly cost into a monthly one (× 52 ÷ 12).
+ * 2.  Add up each child's providers.  If a ceiling was supplied, note every
+ *     child whose care costs more than it; the cost itself is not cut, since
+ *     whether it is reasonable is for the court.
+ * 3.  If a tax-credit rate was supplied, apply it to the yearly cost up to the
+ *     federal expense limit ($3,000 for one child, $6,000 for two or more)
+ *     and take a twelfth of that off the monthly cost.
+ */
+export function computeChildcare(c: Childcare): ChildcareCost {
+  const lines = c.arrangements.map((a): ChildcareLine => ({
+    child: a.child,
+    provider: a.provider,
+    hoursPerWeek: a.hoursPerWeek,
+    hourlyRate: a.hourlyRate,
+    monthly: (a.hoursPerWeek * a.hourlyRate * 52) / 12,
+  }));
+
+  const children = [...new Set(lines.map((l) => l.child))].sort((a, b) => a - b);
+  const perChild = children.map((child) => ({
+    child,
+    monthly: lines.filter((l) => l.child === child).reduce((sum, l) => sum + l.monthly, 0),
+  }));
+  const gross = perChild.reduce((sum, p) => sum + p.monthly, 0);
+
+  const ceilingPerChild = c.ceilingPerChild ?? null;
+  const overCeiling = ceilingPerChild == null ? [] : perChild.filter((p) => p.monthly > ceilingPerChild + 1e-6);
+
+  const taxCreditRate = c.taxCreditRate ?? null;
+  const limit = children.length > 1 ? DEPENDENT_CARE_EXPENSE_LIMITS.twoOrMore : DEPENDENT_CARE_EXPENSE_LIMITS.oneChild;
+  const taxCreditOffset = taxCreditRate == null ? 0 : (Math.min(gross * 12, limit) * taxCreditRate) / 12;
+
+  return {
+    paidBy: c.paidBy,
+    lines,
+    perChild,
+    gross,
+    ceilingPerChild,
+    overCeiling,
+    taxCreditRate,
+    taxCreditOffset,
+    net: gross - taxCreditOffset,
+  };
+}
+
+/**
+ * Worksheet lines for the childcare detail, hung off line 4a (Worksheet A)
+ * or 13a (Worksheet B): the cost per child, the total before any credit, and
+ * the credit taken off.
+ */
+export function childcareLines(line: number, c: ChildcareCost | null): Record<string, number> {
+  if (!c) return {};
+  const prefix = `line${line}a`;
+  const lines: Record<string, number> = {};
+  for (const p of c.perChild) lines[`${prefix}_child${p.child}Childcare`] = p.monthly;
+  lines[`${prefix}_childcareBeforeCredit`] = c.gross;
+  if (c.taxCreditRate != null) lines[`${prefix}_taxCreditOffset`] = c.taxCreditOffset;
+  return lines;
+}
+
+/**
+ * Sentences for the notes list: one for the tax-credit offset, when one was
+ * assumed, and one for each child over the ceiling.
+ */
+export function childcareNotes(c: ChildcareCost | null): string[] {
+  if (!c) return [];
+  const notes: string[] = [];
+  if (c.taxCreditRate != null) {
+    notes.push(
+      `Childcare: assumed dependent-care tax credit of ${(c.taxCreditRate * 100).toFixed(0)}% for ${c.paidBy} reduces ${c.gross.toFixed(2)} to ${c.net.toFixed(2)} a month (offset ${c.taxCreditOffset.toFixed(2)}).`
+    );
+  }
+  for (const p of c.overCeiling) {
+    notes.push(
+      `Note: childcare for child ${p.child} costs ${p.monthly.toFixed(2)} a month, above the reasonableness ceiling of ${(c.ceilingPerChild ?? 0).toFixed(2)}; the court may find it unreasonable.`
+    );
+  }
+  return notes;
+}
@@ -1,56 +1,309 @@
 /**
- * A tiny demonstration command-line script that runs the calculator with a
- * hard-coded example.  It is meant for curious readers or testers who want to
- * see sample numbers without building a user interface yet.
+ * Command-line interface.  It runs one case from a JSON or YAML file, from
+ * stdin, or from flags naming each CaseInputs field, and prints the result as
+ * a short table, the full JSON outputs, or the worksheet lines as text.
+ * "batch" runs every case in a CSV or JSON Lines file instead (see batch.ts).
+ *
+ *   cli case.yaml
+ *   cli --numChildrenThisCase 1 --custodyType PRIMARY \
+ *       --parent1.actualMonthly 3000 --parent2.actualMonthly 2000
+ *   cli case.json --parent2.actualMonthly 2500 --output json
+ *   cli batch cases.csv
+ *
+ * Exit codes: 0 when the case ran, 1 when it failed validation or the
+ * calculator failed (or, in batch mode, any record failed), 2 for a usage
+ * mistake or a file that could not be read.
  */
-import * as S from "./schema";
-import * as Schedule from "./schedule";
+import * as fs from "fs";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
 import { calculateCase } from "./calc";
+import {
+  BatchFormat,
+  batchFormatFor,
+  formatBatchSummary,
+  isCaseFieldPath,
+  parseBatchRecords,
+  runBatch,
+  setDottedField,
+} from "./batch";
+import { formatImportIssues, importScheduleCsv } from "./importer";
+import { defaultScheduleRegistry, type ScheduleRegistry } from "./registry";
+import { compileSchedule, type Schedule } from "./schedule";
+import { CaseInputs, type CaseOutputs } from "./schema";
 
-// Example scenario mirroring Worksheet B inputs.  Feel free to modify the
-// numbers while experimenting from the terminal.
-const sample: S.CaseInputs = {
-  numChildrenThisCase: 2,
-  custodyType: "SHARED",
-  primaryCustodian: "P1",
-  overnightsParent1: 200,
-  parent1: {
-    actualMonthly: 900,
-    preexistingSupportPaid: 0,
-    alimonyPaid: 0,
-    alimonyReceived: 0,
-    multifamilyChildrenInHome: 0,
-  },
-  parent2: {
-    actualMonthly: 700,
-    preexistingSupportPaid: 0,
-    alimonyPaid: 0,
-    alimonyReceived: 0,
-    multifamilyChildrenInHome: 0,
-  },
-  addOns: {
-    childcare: 120,
-    healthInsurance: 30,
-    extraordinaryMedical: 0,
-    cashMedicalIVD: 0,
-    additionalExpenses: 0,
-  },
-  directPay: {
-    parent1: {
-      childcare: 120,
-      healthInsurance: 0,
-      extraordinaryMedical: 0,
-      cashMedicalIVD: 0,
-      additionalExpenses: 0,
-    },
-    parent2: {
-      childcare: 0,
-      healthInsurance: 30,
-      extraordinaryMedical: 0,
-      cashMedicalIVD: 0,
-      additionalExpenses: 0,
-    },
-  },
+export const OutputFormat = z.enum(["table", "json", "worksheet"]);
+export type OutputFormat = z.infer<typeof OutputFormat>;
+
+export const CLI_USAGE = `Usage:
+  cli [case.json|case.yaml|-] [--<field> <value> ...] [--schedule <file>] [--output table|json|worksheet]
+  cli batch <cases.csv|cases.jsonl|-> [--format csv|jsonl] [--schedule <file>]
+
+Case fields are CaseInputs paths, such as --custodyType SHARED,
+--parent1.actualMonthly 3000 or --addOns.childcare 200; flags override the
+file.  --schedule takes a schedule as JSON (like src/schedule-data.json) or
+CSV (like docs/schedule.csv) and is used for every case; without it the
+built-in schedule registry picks the table by asOfDate.`;
+
+/**
+ * Where the CLI reads and writes.  Tests swap these out; the real program
+ * uses the file system and the process streams.
+ */
+export type CliIo = {
+  readText: (file: string) => string;
+  out: (text: string) => void;
+  err: (text: string) => void;
+};
+
+const processIo: CliIo = {
+  readText: (file) => fs.readFileSync(file === "-" ? 0 : file, "utf8"),
+  out: (text) => process.stdout.write(`${text}\n`),
+  err: (text) => process.stderr.write(`${text}\n`),
+};
+
+/**
+ * Command-line arguments sorted out.  "fields" keeps the case flags in the
+ * order given so a later flag wins over an earlier one.
+ */
+type ParsedArgs = {
+  positional: string[];
+  options: Record<string, string>;
+  fields: Array<[string, string]>;
+  help: boolean;
 };
 
-console.log(calculateCase(sample, Schedule.demoSchedule));
+const OPTION_NAMES = new Set(["schedule", "output", "format"]);
+
+/**
+ * Splits the arguments into positionals, the CLI's own options and case
+ * field flags.  Both "--name value" and "--name=value" work; "-o" is short
+ * for "--output".  A flag that is neither an option nor a CaseInputs field
+ * is an error, so a misspelt field is not silently dropped.
+ */
+export function parseCliArgs(argv: string[]): ParsedArgs | { error: string } {
+  const parsed: ParsedArgs = { positional: [], options: {}, fields: [], help: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h" || arg === "--help") {
+      parsed.help = true;
+      continue;
+    }
+    if (arg === "-" || !arg.startsWith("-")) {
+      parsed.positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    const name = arg === "-o" ? "output" : arg.slice(2, eq === -1 ? undefined : eq);
+    let value: string | undefined = eq === -1 ? undefined : arg.slice(eq + 1);
+    if (value === undefined) {
+      value = argv[i + 1];
+      if (value === undefined) return { error: `${arg} needs a value.` };
+      i++;
+    }
+    if (OPTION_NAMES.has(name)) {
+      parsed.options[name] = value;
+    } else if (isCaseFieldPath(name)) {
+      parsed.fields.push([name, value]);
+    } else {
+      return { error: `Unknown option ${arg}.` };
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Reads a schedule file: CSV goes through the importer, anything else is
+ * read as JSON in the Schedule shape.  Problems come back as readable lines.
+ */
+function loadSchedule(file: string, io: CliIo): { schedule: Schedule } | { errors: string[] } {
+  let text: string;
+  try {
+    text = io.readText(file);
+  } catch (err) {
+    return { errors: [`Cannot read schedule ${file}: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  if (file.toLowerCase().endsWith(".csv")) {
+    const report = importScheduleCsv(text);
+    if (!report.schedule) return { errors: [`Schedule ${file} has problems:`, ...formatImportIssues(report)] };
+    return { schedule: report.schedule };
+  }
+  try {
+    return { schedule: compileSchedule(JSON.parse(text) as Schedule) };
+  } catch (err) {
+    return { errors: [`Schedule ${file} is not usable: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+}
+
+/**
+ * Reads a case file.  ".json" files are read as JSON; anything else,
+ * including stdin, as YAML, which also accepts JSON.
+ */
+function readCaseFile(file: string, io: CliIo): { value: unknown } | { error: string } {
+  try {
+    const text = io.readText(file);
+    return { value: file.toLowerCase().endsWith(".json") ? JSON.parse(text) : parseYaml(text) };
+  } catch (err) {
+    const where = file === "-" ? "stdin" : file;
+    return { error: `Cannot read case from ${where}: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+function money(n: number): string {
+  return n.toFixed(2);
+}
+
+/**
+ * The short summary: which worksheet ran, who pays how much, any advisory,
+ * and the notes.
+ */
+export function formatOutputsTable(o: CaseOutputs): string {
+  const amount = Math.abs(o.recommendedOrderParent1PaysParent2);
+  const order =
+    o.payor === null ? money(0) : `${money(amount)} (${o.payor} pays ${o.payor === "P1" ? "P2" : "P1"})`;
+  const rows: Array<[string, string]> = [
+    ["Worksheet", o.path],
+    ["Recommended order", order],
+    ["Advisory", o.advisory ?? "none"],
+    ["Schedule", o.scheduleVersion ?? "(given schedule)"],
+  ];
+  const width = Math.max(...rows.map(([label]) => label.length));
+  const lines = rows.map(([label, value]) => `${label.padEnd(width)}  ${value}`);
+  if (o.notes.length > 0) lines.push("", "Notes:", ...o.notes.map((n) => `- ${n}`));
+  return lines.join("\n");
+}
+
+/**
+ * The worksheet lines in the order the calculator filled them in, one per
+ * row with the amount right-aligned.
+ */
+export function formatWorksheetText(o: CaseOutputs): string {
+  const entries = Object.entries(o.worksheet);
+  const width = Math.max(0, ...entries.map(([key]) => key.length));
+  const amounts = entries.map(([, value]) => money(value));
+  const amountWidth = Math.max(0, ...amounts.map((a) => a.length));
+  return entries.map(([key], i) => `${key.padEnd(width)}  ${amounts[i].padStart(amountWidth)}`).join("\n");
+}
+
+function runBatchCommand(args: ParsedArgs, scheduleSource: Schedule | ScheduleRegistry, io: CliIo): number {
+  const [file] = args.positional;
+  if (!file || args.positional.length > 1 || args.fields.length > 0 || args.options.output) {
+    io.err(CLI_USAGE);
+    return 2;
+  }
+  const formatArg = args.options.format;
+  const parsedFormat = formatArg ? BatchFormat.safeParse(formatArg) : null;
+  if (parsedFormat && !parsedFormat.success) {
+    io.err(`Unknown format "${formatArg}"; use csv or jsonl.`);
+    return 2;
+  }
+  const format = parsedFormat?.data ?? batchFormatFor(file);
+  if (!format) {
+    io.err(`Cannot tell the format of ${file}; pass --format csv or --format jsonl.`);
+    return 2;
+  }
+
+  let text: string;
+  try {
+    text = io.readText(file);
+  } catch (err) {
+    io.err(`Cannot read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+    return 2;
+  }
+
+  const report = runBatch(parseBatchRecords(text, format), scheduleSource);
+  for (const result of report.results) io.out(JSON.stringify(result));
+  for (const line of formatBatchSummary(report.summary)) io.err(line);
+  return report.summary.failed > 0 ? 1 : 0;
+}
+
+/**
+ * Runs the CLI and returns the exit code.
+ *
+ * Steps for a single case:
+ * 1.  Start from the case file when one is given, then apply each field
+ *     flag on top of it.
+ * 2.  Validate the result as CaseInputs.  Every problem is printed with its
+ *     field path and the exit code is 1.
+ * 3.  Run the calculator against the given schedule, or the built-in
+ *     registry, and print the outputs in the chosen format.
+ */
+export function runCli(argv: string[], io: CliIo = processIo): number {
+  const batch = argv[0] === "batch";
+  const args = parseCliArgs(batch ? argv.slice(1) : argv);
+  if ("error" in args) {
+    io.err(args.error);
+    io.err(CLI_USAGE);
+    return 2;
+  }
+  if (args.help) {
+    io.out(CLI_USAGE);
+    return 0;
+  }
+
+  let scheduleSource: Schedule | ScheduleRegistry = defaultScheduleRegistry;
+  if (args.options.schedule) {
+    const loaded = loadSchedule(args.options.schedule, io);
+    if ("errors" in loaded) {
+      loaded.errors.forEach((line) => io.err(line));
+      return 2;
+    }
+    scheduleSource = loaded.schedule;
+  }
+  if (batch) return runBatchCommand(args, scheduleSource, io);
+
+  const output = OutputFormat.safeParse(args.options.output ?? "table");
+  if (!output.success || args.options.format || args.positional.length > 1) {
+    io.err(CLI_USAGE);
+    return 2;
+  }
+  const [file] = args.positional;
+  if (!file && args.fields.length === 0) {
+    io.err(CLI_USAGE);
+    return 2;
+  }
+
+  let raw: Record<string, unknown> = {};
+  if (file) {
+    const read = readCaseFile(file, io);
+    if ("error" in read) {
+      io.err(read.error);
+      return 2;
+    }
+    if (read.value === null || typeof read.value !== "object" || Array.isArray(read.value)) {
+      io.err(`${file === "-" ? "stdin" : file} must hold one case as an object.`);
+      return 2;
+    }
+    raw = read.value as Record<string, unknown>;
+  } else {
+    // addOns is required but every add-on defaults to zero, so a case given
+    // only by flags does not need to name it.
+    raw.addOns = {};
+  }
+  for (const [path, value] of args.fields) setDottedField(raw, path, value);
+
+  const parsed = CaseInputs.safeParse(raw);
+  if (!parsed.success) {
+    io.err("Case inputs failed validation:");
+    for (const issue of parsed.error.issues) {
+      const path = issue.path.map(String).join(".");
+      io.err(`- ${path ? `${path}: ` : ""}${issue.message}`);
+    }
+    return 1;
+  }
+
+  let outputs: CaseOutputs;
+  try {
+    outputs = calculateCase(parsed.data, scheduleSource);
+  } catch (err) {
+    io.err(`Calculation failed: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+  if (output.data === "json") io.out(JSON.stringify(outputs, null, 2));
+  else if (output.data === "worksheet") io.out(formatWorksheetText(outputs));
+  else io.out(formatOutputsTable(outputs));
+  return 0;
+}
+
+if (require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
@@ -0,0 +1,78 @@
+/**
+ * Above-the-schedule helpers.  When the combined income runs past the last row
+ * of the table the statute leaves the amount to the court, but judges still
+ * ask for a starting point.  Each method here produces an illustrative basic
+ * obligation from the top of the table; the case stays flagged as
+ * discretionary either way.
+ */
+import type { AboveScheduleMethod } from "./schema";
+import { childrenColumnKey, compileSchedule, type Schedule } from "./schedule";
+
+/**
+ * The illustrative amount plus the numbers used to reach it, so the worksheet
+ * can show exactly how far the top row was stretched.
+ */
+export type Extrapolation = {
+  method: AboveScheduleMethod;
+  amount: number;
+  topRowIncome: number;
+  topRowAmount: number;
+  rate: number | null;
+};
+
+/**
+ * Plain-language names for each method, used in the notes list.
+ */
+export const ABOVE_SCHEDULE_METHOD_LABELS: Record<AboveScheduleMethod, string> = {
+  CAP_AT_TOP_ROW: "capped at the top row of the schedule",
+  TOP_ROW_PERCENTAGE: "top-row percentage of income extended to the full combined income",
+  MARGINAL_RATE: "marginal rate of the last schedule band extended past the top row",
+};
+
+/**
+ * Produces an illustrative basic obligation for an income above the table.
+ *
+ * - CAP_AT_TOP_ROW: use the top-row amount as is.
+ * - TOP_ROW_PERCENTAGE: take the top-row amount as a share of the top-row
+ *   income and apply that share to the whole combined income.
+ * - MARGINAL_RATE: measure how much the amount grew across the last band of
+ *   the table and keep growing at that rate for every dollar above the top.
+ */
+export function extrapolateBasicObligation(
+  table: Schedule,
+  combinedIncome: number,
+  numChildren: number,
+  method: AboveScheduleMethod
+): Extrapolation {
+  const schedule = compileSchedule(table);
+  const incomes = schedule.combinedMonthlyIncome;
+  const col = schedule.byChildren[childrenColumnKey(schedule, numChildren)];
+
+  const top = incomes.length - 1;
+  const topRowIncome = incomes[top];
+  const topRowAmount = col[top];
+
+  switch (method) {
+    case "CAP_AT_TOP_ROW":
+      return { method, amount: topRowAmount, topRowIncome, topRowAmount, rate: null };
+    case "TOP_ROW_PERCENTAGE": {
+      const rate = topRowAmount / topRowIncome;
+      return { method, amount: combinedIncome * rate, topRowIncome, topRowAmount, rate };
+    }
+    case "MARGINAL_RATE": {
+      if (top === 0) {
+        throw new Error("Schedule needs at least two rows to measure a marginal rate.");
+      }
+      const rate = (topRowAmount - col[top - 1]) / (topRowIncome - incomes[top - 1]);
+      const amount = topRowAmount + rate * (combinedIncome - topRowIncome);
+      return { method, amount, topRowIncome, topRowAmount, rate };
+    }
+  }
+}
+
+/**
+ * Sentence for the notes list describing which method produced the amount.
+ */
+export function extrapolationNote(e: Extrapolation): string {
+  return `Above top of schedule; illustrative basic obligation of ${e.amount.toFixed(2)} ${ABOVE_SCHEDULE_METHOD_LABELS[e.method]}. Court discretion still applies.`;
+}
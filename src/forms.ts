@@ -0,0 +1,417 @@
+/**
+ * Official form layouts.  The worksheet record in the outputs is keyed for
+ * programs ("line8_p1ShareAdjustedBasic"); a court wants the numbers where
+ * CC-DR-034 (Worksheet A) and CC-DR-035 (Worksheet B, with Worksheet C) put
+ * them: numbered lines in form order, each with its printed label, a column
+ * per parent and a combined column.  These helpers read the outputs (and the
+ * inputs, for line 1, which the calculator does not repeat) into that shape
+ * so any renderer can print it.
+ */
+import type { CaseInputs, CaseOutputs, ParentIncome } from "./schema";
+import { incomeForWorksheet } from "./potential";
+
+/**
+ * One printed line.  "operator" is the sign the form prints before the
+ * parent amounts on the line 1 adjustments.  A cell is null when the form
+ * leaves it blank or the calculator stopped before reaching it.
+ */
+export type FormLine = {
+  line: string;
+  label: string;
+  hint: string | null;
+  kind: "money" | "percent" | "count" | "heading";
+  operator: "-" | "+/-" | null;
+  p1: number | null;
+  p2: number | null;
+  combined: number | null;
+};
+
+/**
+ * One filled-in worksheet.  "subtitle" names the children it covers when a
+ * case needs more than one worksheet (split custody or per-child schedules).
+ */
+export type WorksheetForm = {
+  form: "A" | "B";
+  formNumber: "CC-DR-034" | "CC-DR-035";
+  title: string;
+  rule: string;
+  subtitle: string | null;
+  numChildren: number;
+  payor: "P1" | "P2" | null;
+  lines: FormLine[];
+  worksheetC: FormLine[] | null;
+};
+
+/**
+ * The lines a case with more than one worksheet uses to bring them together:
+ * the split-custody netting or the per-child total.
+ */
+export type CombinedForm = {
+  title: string;
+  lines: FormLine[];
+};
+
+export const WORKSHEET_A_TITLE = "Worksheet A - Child Support Obligation: Primary Physical Custody";
+export const WORKSHEET_B_TITLE = "Worksheet B - Child Support Obligation: Shared Physical Custody";
+
+/**
+ * Add-on rows in form order with their printed labels.  Worksheet A numbers
+ * them 4a–4e and Worksheet B 13a–13e.
+ */
+const ADD_ON_ROWS: Array<{ letter: string; key: string; label: string; hint: string }> = [
+  { letter: "a", key: "childcare", label: "Work-Related Child Care Expenses", hint: "Code, Family Law Article, § 12-204 (g)" },
+  { letter: "b", key: "healthInsurance", label: "Health Insurance Expenses", hint: "Code, Family Law Article, § 12-204 (h)(1)" },
+  { letter: "c", key: "extraordinaryMedical", label: "Extraordinary Medical Expenses", hint: "Code, Family Law Article, § 12-204 (h)(2)" },
+  {
+    letter: "d",
+    key: "cashMedicalIVD",
+    label: "Cash Medical Support",
+    hint: "Code, Family Law Article, § 12-102 (c) - applies only to a child support order under Title IV, Part D of the Social Security Act",
+  },
+  { letter: "e", key: "additionalExpenses", label: "Additional Expenses", hint: "Code, Family Law Article § 12-204 (i)" },
+];
+
+/**
+ * Worksheet C rows: the proportionate-share line and the excess line for
+ * each Worksheet B expense line, then the totals.
+ */
+const WORKSHEET_C_ROWS: Array<{ letter: string; suffix: string; label: string }> = [
+  ...["13 a", "13 b", "13 c", "13 d", "13 e"].flatMap((expense, i) => {
+    const share = "acegi"[i];
+    const excess = "bdfhj"[i];
+    return [
+      {
+        letter: share,
+        suffix: "Share",
+        label: `Total amount of direct payments made for Line ${expense} expenses multiplied by each parent's percentage of income (Line 3, WORKSHEET B)`,
+      },
+      {
+        letter: excess,
+        suffix: "Excess",
+        label: `The excess amount of direct payments made by the parent who pays more than the amount calculated in Line ${share}, above`,
+      },
+    ];
+  }),
+  { letter: "k", suffix: "TotalExcess", label: "For each parent, add lines b, d, f, h, and j" },
+  {
+    letter: "l",
+    suffix: "Net",
+    label: "Subtract lesser amount from greater amount in Line k, above, and place the answer under the lesser amount in Line k. Also enter this answer on line 14 of WORKSHEET B, in the same parent's column",
+  },
+];
+
+function row(
+  line: string,
+  label: string,
+  cells: { p1?: number | null; p2?: number | null; combined?: number | null },
+  options: { hint?: string; kind?: FormLine["kind"]; operator?: FormLine["operator"] } = {}
+): FormLine {
+  return {
+    line,
+    label,
+    hint: options.hint ?? null,
+    kind: options.kind ?? "money",
+    operator: options.operator ?? null,
+    p1: cells.p1 ?? null,
+    p2: cells.p2 ?? null,
+    combined: cells.combined ?? null,
+  };
+}
+
+/**
+ * Lines 1 through 3, shared by both forms.  Line 1 and its adjustments come
+ * from the inputs.  The multifamily adjustment (1d) is whatever separates
+ * those figures from line 2, since the calculator only reports the result;
+ * Social Security derivative benefits, which also count toward line 2, are
+ * added back first.
+ */
+function incomeLines(
+  inputs: CaseInputs,
+  get: (key: string) => number | null
+): FormLine[] {
+  const multifamily = (p: ParentIncome, aai: number | null) => {
+    if (aai == null) return null;
+    const beforeAllowance =
+      incomeForWorksheet(p) - p.preexistingSupportPaid - p.alimonyPaid + p.alimonyReceived + (p.socialSecurityDerivativeBenefits ?? 0);
+    return Math.max(0, beforeAllowance - aai);
+  };
+  const p1AAI = get("line2_p1AAI");
+  const p2AAI = get("line2_p2AAI");
+  const children = (p: ParentIncome) => p.multifamilyChildrenInHome ?? 0;
+  return [
+    row("1", "Monthly Actual Income (Before taxes)", {
+      p1: incomeForWorksheet(inputs.parent1),
+      p2: incomeForWorksheet(inputs.parent2),
+    }, { hint: "Code, Family Law Article, § 12-201 (b)" }),
+    row("1a", "Minus preexisting child support payment actually paid", {
+      p1: inputs.parent1.preexistingSupportPaid,
+      p2: inputs.parent2.preexistingSupportPaid,
+    }, { operator: "-" }),
+    row("1b", "Minus alimony actually paid", {
+      p1: inputs.parent1.alimonyPaid,
+      p2: inputs.parent2.alimonyPaid,
+    }, { operator: "-" }),
+    row("1c", "Plus/minus alimony awarded in this case", {
+      p1: inputs.parent1.alimonyReceived,
+      p2: inputs.parent2.alimonyReceived,
+    }, { operator: "+/-" }),
+    row("1d", "Multifamily Adjustment", {
+      p1: multifamily(inputs.parent1, p1AAI),
+      p2: multifamily(inputs.parent2, p2AAI),
+    }, {
+      hint: `Other children in the home × .75: Parent 1 – ${children(inputs.parent1)}, Parent 2 – ${children(inputs.parent2)}`,
+      operator: "-",
+    }),
+    row("2", "Monthly Adjusted Actual Income", {
+      p1: p1AAI,
+      p2: p2AAI,
+      combined: p1AAI != null && p2AAI != null ? p1AAI + p2AAI : null,
+    }),
+    row("3", "Percentage Share of Income", { p1: get("line3_p1Share"), p2: get("line3_p2Share") }, {
+      hint: "Divide each parent's income on line 2 by the combined income on line 2",
+      kind: "percent",
+    }),
+    row("4", "Basic Child Support Obligation", { combined: get("line4_basic") }, {
+      hint: "Apply line 2 Combined Income to Child Support Schedule",
+    }),
+  ];
+}
+
+function addOnRows(line: number, get: (key: string) => number | null): FormLine[] {
+  return ADD_ON_ROWS.map(({ letter, key, label, hint }) =>
+    row(`${line}${letter}`, label, {
+      p1: get(`line${line}${letter}_p1DirectPayCredited`) ?? get(`line${line}${letter}_p1DirectPay`),
+      p2: get(`line${line}${letter}_p2DirectPayCredited`) ?? get(`line${line}${letter}_p2DirectPay`),
+      combined: get(`line${line}${letter}_${key}`),
+    }, { hint })
+  );
+}
+
+function payorCells(payor: "P1" | "P2" | null, amount: number | null) {
+  if (!payor || amount == null) return {};
+  return payor === "P1" ? { p1: amount } : { p2: amount };
+}
+
+function worksheetALines(inputs: CaseInputs, get: (key: string) => number | null, payor: "P1" | "P2" | null): FormLine[] {
+  return [
+    ...incomeLines(inputs, get),
+    ...addOnRows(4, get),
+    row("5", "Total Child Support Obligation", { combined: get("line5_totalObligation") }, {
+      hint: "Add lines 4, 4a, 4b, 4c, 4d, and 4e",
+    }),
+    row("6", "Each Parent's Child Support Obligation", { p1: get("line6_p1Obligation"), p2: get("line6_p2Obligation") }, {
+      hint: "Multiply line 5 by line 3 for each parent",
+    }),
+    row("7", "Total Direct Pay by Each Parent", { p1: get("line7_p1DirectPay"), p2: get("line7_p2DirectPay") }, {
+      hint: "Add the expenses shown on lines 4a, 4b, 4c, 4d, and 4e paid by each parent",
+    }),
+    row("8", "Recommended Child Support Amount", { p1: get("line8_p1Recommended"), p2: get("line8_p2Recommended") }, {
+      hint: "Subtract line 7 from line 6 for each parent",
+    }),
+    row("9", "Recommended Child Support Order", payorCells(payor, get("line9_recommendedOrder")), {
+      hint: "Bring down amount from line 8 for the non-custodial parent only",
+    }),
+  ];
+}
+
+function worksheetBLines(
+  inputs: CaseInputs,
+  get: (key: string) => number | null,
+  payor: "P1" | "P2" | null,
+  order: number | null
+): FormLine[] {
+  return [
+    ...incomeLines(inputs, get),
+    row("5", "Adjusted Basic Child Support Obligation", { combined: get("line5_adjustedBasic") }, { hint: "Multiply line 4 by 1.5" }),
+    row("6", "Overnights with each parent", {
+      p1: get("line6_overnightsP1"),
+      p2: get("line6_overnightsP2"),
+      combined: 365,
+    }, { hint: "Must total 365", kind: "count" }),
+    row("7", "Percentage with each parent", { p1: get("line7_pctP1"), p2: get("line7_pctP2") }, {
+      hint: "Line 6 divided by 365",
+      kind: "percent",
+    }),
+    row("8", "Each Parent's Share of Adjusted Basic Child Support Obligation", {
+      p1: get("line8_p1ShareAdjustedBasic"),
+      p2: get("line8_p2ShareAdjustedBasic"),
+    }, { hint: "Multiply line 5 by line 3 for each parent" }),
+    row("9", "Theoretical Basic Child Support Obligation for Time with Other Parent", {
+      p1: get("line9_p1Theoretical"),
+      p2: get("line9_p2Theoretical"),
+    }, { hint: "Multiply line 8A by line 7B for line 9A, and line 8B by line 7A for line 9B" }),
+    row("10", "Shared Physical Custody Adjustment", {
+      p1: get("line10_p1Adjustment"),
+      p2: get("line10_p2Adjustment"),
+    }, { hint: "For a parent with 92 to 109 overnights, that parent's line 9 × (110 − overnights) ÷ 18" }),
+    row("11", "Adjusted Theoretical Basic Child Support Obligation", {
+      p1: get("line11_p1AfterAdjustment"),
+      p2: get("line11_p2AfterAdjustment"),
+    }, { hint: "Subtract line 10 from line 9 for each parent" }),
+    row("12", "Net Basic Child Support Obligation", { p1: get("line12_p1NetBasic"), p2: get("line12_p2NetBasic") }, {
+      hint: "Subtract the lesser amount on line 11 from the greater, under the greater",
+    }),
+    row("13", "Expenses", {}, { kind: "heading" }),
+    ...addOnRows(13, get),
+    row("14", "Net Adjustment from Worksheet C", { p1: get("line14_p1WorksheetC"), p2: get("line14_p2WorksheetC") }, {
+      hint: "Amount from line l, Worksheet C, if applicable",
+    }),
+    row("15", "Net Basic Child Support Obligation", { p1: get("line15_p1NetBasic"), p2: get("line15_p2NetBasic") }, {
+      hint: "From line 12, Worksheet B",
+    }),
+    row("16", "Recommended Child Support Order", payorCells(payor, order), {
+      hint: "Add lines 14 and 15 when owed by the same parent; otherwise subtract the lesser from the greater. May not exceed the Worksheet A amount",
+    }),
+  ];
+}
+
+function worksheetCLines(get: (key: string) => number | null): FormLine[] | null {
+  if (get("worksheetC_k_p1TotalExcess") == null) return null;
+  return WORKSHEET_C_ROWS.map(({ letter, suffix, label }) =>
+    row(letter, label, { p1: get(`worksheetC_${letter}_p1${suffix}`), p2: get(`worksheetC_${letter}_p2${suffix}`) })
+  );
+}
+
+/**
+ * One worksheet to lay out: the key prefix its lines carry in the outputs,
+ * who pays under it and the order amount (Parent 1 pays Parent 2, signed).
+ */
+type WorksheetSource = {
+  prefix: string;
+  subtitle: string | null;
+  numChildren: number;
+  order: number | null;
+};
+
+function buildForm(inputs: CaseInputs, outputs: CaseOutputs, source: WorksheetSource): WorksheetForm {
+  const get = (key: string) => {
+    const value = outputs.worksheet[`${source.prefix}${key}`];
+    return typeof value === "number" ? value : null;
+  };
+  const payor = source.order == null || Math.abs(source.order) <= 1e-6 ? null : source.order > 0 ? "P1" : "P2";
+  const shared = get("line6_overnightsP1") != null;
+  return shared
+    ? {
+        form: "B",
+        formNumber: "CC-DR-035",
+        title: WORKSHEET_B_TITLE,
+        rule: "Md. Rule 9-206(d)",
+        subtitle: source.subtitle,
+        numChildren: source.numChildren,
+        payor,
+        lines: worksheetBLines(inputs, get, payor, source.order == null ? null : Math.abs(source.order)),
+        worksheetC: worksheetCLines(get),
+      }
+    : {
+        form: "A",
+        formNumber: "CC-DR-034",
+        title: WORKSHEET_A_TITLE,
+        rule: "Md. Rule 9-206(c)",
+        subtitle: source.subtitle,
+        numChildren: source.numChildren,
+        payor,
+        lines: worksheetALines(inputs, get, payor),
+        worksheetC: null,
+      };
+}
+
+const GROUP_SOURCES: Array<{ prefix: string; subtitle: string }> = [
+  { prefix: "groupShared_", subtitle: "Children with shared physical custody" },
+  { prefix: "groupP1_", subtitle: "Children in Parent 1's primary physical custody" },
+  { prefix: "groupP2_", subtitle: "Children in Parent 2's primary physical custody" },
+];
+
+/**
+ * Lays the outputs out as the official worksheets, one per worksheet the
+ * case ran.
+ *
+ * - Worksheet A or B: one form, with Worksheet C attached to B when it
+ *   applied.
+ * - Split custody: one Worksheet A per household.  The household with
+ *   Parent 1 is paid by Parent 2 and the other way round.
+ * - Per-child schedules: one form per group of children, A or B depending
+ *   on how that group's worksheet ran.
+ */
+export function worksheetForms(outputs: CaseOutputs, inputs: CaseInputs): WorksheetForm[] {
+  const count = (key: string) => outputs.worksheet[key] ?? 0;
+  switch (outputs.path) {
+    case "SplitWorksheetA":
+      return [1, 2].map((n) => {
+        const prefix = `household${n}_`;
+        const amount = outputs.worksheet[`${prefix}line9_recommendedOrder`];
+        const order = amount == null ? null : n === 1 ? -amount : amount;
+        return buildForm(inputs, outputs, {
+          prefix,
+          subtitle: `Children living with Parent ${n}`,
+          numChildren: count(`${prefix}children`),
+          order,
+        });
+      });
+    case "PerChildWorksheets":
+      return GROUP_SOURCES.filter(({ prefix }) => outputs.worksheet[`${prefix}children`] != null).map(({ prefix, subtitle }) =>
+        buildForm(inputs, outputs, {
+          prefix,
+          subtitle,
+          numChildren: count(`${prefix}children`),
+          order: outputs.worksheet[`${prefix}orderP1PaysP2`] ?? null,
+        })
+      );
+    default:
+      return [
+        buildForm(inputs, outputs, {
+          prefix: "",
+          subtitle: null,
+          numChildren: inputs.numChildrenThisCase,
+          order: outputs.payor ? outputs.recommendedOrderParent1PaysParent2 : null,
+        }),
+      ];
+  }
+}
+
+/**
+ * The lines that bring several worksheets together: the split-custody
+ * netting, or the per-child total.  Returns null for a single worksheet.
+ */
+export function combinedForm(outputs: CaseOutputs): CombinedForm | null {
+  const w = outputs.worksheet;
+  const order = payorCells(outputs.payor, Math.abs(outputs.recommendedOrderParent1PaysParent2));
+  const reserve = (prefix: string) =>
+    w[`${prefix}selfSupportReserve`] == null
+      ? []
+      : [
+          row("", "Self-support reserve: reduction so the paying parent keeps the reserve", {
+            p1: w[`${prefix}p1ReserveReduction`],
+            p2: w[`${prefix}p2ReserveReduction`],
+            combined: w[`${prefix}selfSupportReserve`],
+          }, { operator: "-" }),
+        ];
+
+  if (outputs.path === "SplitWorksheetA") {
+    if (w.split_recommendedOrder == null) return null;
+    return {
+      title: "Split custody: netting the two worksheets",
+      lines: [
+        row("", "Owed for the children living with the other parent (line 9 of each worksheet)", {
+          p1: w.split_p1Obligation,
+          p2: w.split_p2Obligation,
+        }),
+        ...reserve("split_"),
+        row("", "Recommended Child Support Order", order, { hint: "The parent who owes more pays the difference" }),
+      ],
+    };
+  }
+  if (outputs.path === "PerChildWorksheets") {
+    return {
+      title: "Per-child schedules: combining the worksheets",
+      lines: [
+        ...GROUP_SOURCES.filter(({ prefix }) => w[`${prefix}orderP1PaysP2`] != null).map(({ prefix, subtitle }) => {
+          const amount = w[`${prefix}orderP1PaysP2`];
+          return row("", subtitle, amount >= 0 ? { p1: amount } : { p2: -amount });
+        }),
+        ...reserve("combined_"),
+        row("", "Recommended Child Support Order", order, { hint: "Amounts owed by opposite parents offset" }),
+      ],
+    };
+  }
+  return null;
+}
@@ -0,0 +1,196 @@
+/**
+ * Pay-frequency helpers.  People know their pay as "500 a week" or "26,000 a
+ * year", but every worksheet line is monthly.  These helpers turn any entered
+ * amount into its monthly figure using the standard factors and keep a record
+ * of each conversion so the original entry is never lost.
+ */
+import type {
+  CaseInputs,
+  CaseInputsEntry,
+  FrequencyConversion,
+  MoneyEntry,
+  Monthly,
+  AddOns,
+  AddOnsEntry,
+  ParentIncome,
+  ParentIncomeEntry,
+  PayFrequency,
+} from "./schema";
+import { itemizeIncome } from "./income";
+import { extraordinaryMedicalFromCosts } from "./medical";
+import { apportionPremium } from "./premium";
+import { computeChildcare } from "./childcare";
+import { countOvernights } from "./parentingtime";
+
+/**
+ * How many times a month each frequency comes around.  Weekly and bi-weekly
+ * use 52 and 26 pay periods spread over 12 months, so a year of payments
+ * lands on the same total however it was entered.
+ */
+export const MONTHLY_FACTORS: Record<PayFrequency, number> = {
+  WEEKLY: 52 / 12,
+  BIWEEKLY: 26 / 12,
+  SEMIMONTHLY: 2,
+  MONTHLY: 1,
+  ANNUAL: 1 / 12,
+};
+
+/**
+ * Converts one amount at the given frequency to its monthly figure.
+ */
+export function toMonthly(amount: number, frequency: PayFrequency): number {
+  return amount * MONTHLY_FACTORS[frequency];
+}
+
+/**
+ * Monthly figure for a money field, whether it was entered as a plain monthly
+ * number or with a frequency.
+ */
+export function monthlyAmount(value: number | MoneyEntry): number {
+  return typeof value === "number" ? value : toMonthly(value.amount, value.frequency);
+}
+
+/**
+ * Converts every money field in one group (a parent's income, the add-ons, or
+ * one parent's direct payments).  Plain numbers are already monthly and pass
+ * through; entries with a frequency are converted and logged under their
+ * field path, for example "parent1.actualMonthly".
+ */
+function normalizeGroup<T extends Record<string, number | MoneyEntry>>(
+  group: T,
+  path: string,
+  conversions: FrequencyConversion[]
+): Monthly<T> {
+  const out: Record<string, number> = {};
+  for (const [key, value] of Object.entries(group)) {
+    if (typeof value === "number") {
+      out[key] = value;
+      continue;
+    }
+    const monthly = toMonthly(value.amount, value.frequency);
+    conversions.push({ field: `${path}.${key}`, amount: value.amount, frequency: value.frequency, monthly });
+    out[key] = monthly;
+  }
+  return out as Monthly<T>;
+}
+
+/**
+ * Converts one parent's income, including each itemized source and any
+ * potential income, and works out actual monthly income from the sources when
+ * they were given.
+ */
+function normalizeParent(
+  p: ParentIncomeEntry,
+  path: string,
+  conversions: FrequencyConversion[]
+): ParentIncome {
+  const { actualMonthly, incomeSources, potentialIncome, multifamilyChildrenInHome, ...amounts } = p;
+  const sources = incomeSources?.map((source, i) => ({
+    ...source,
+    ...normalizeGroup(
+      { amount: source.amount, expenses: source.expenses },
+      `${path}.incomeSources.${i}`,
+      conversions
+    ),
+  }));
+  const potential = potentialIncome && {
+    ...potentialIncome,
+    amount:
+      potentialIncome.amount == null
+        ? undefined
+        : normalizeGroup({ amount: potentialIncome.amount }, `${path}.potentialIncome`, conversions).amount,
+  };
+  const entered =
+    actualMonthly == null ? 0 : normalizeGroup({ actualMonthly }, path, conversions).actualMonthly;
+  return {
+    ...normalizeGroup(amounts, path, conversions),
+    ...(sources ? { incomeSources: sources } : {}),
+    ...(potential ? { potentialIncome: potential } : {}),
+    actualMonthly: sources ? itemizeIncome(sources).includedTotal : entered,
+    multifamilyChildrenInHome,
+  };
+}
+
+/**
+ * Converts the add-ons, including each child's uninsured medical costs, and
+ * works out the qualifying extraordinary medical amount when those costs were
+ * given.
+ */
+function normalizeAddOns(a: AddOnsEntry, conversions: FrequencyConversion[]): AddOns {
+  const { uninsuredMedicalByChild, ...amounts } = a;
+  const costs = uninsuredMedicalByChild?.map(
+    (cost, i) => normalizeGroup({ cost }, `addOns.uninsuredMedicalByChild.${i}`, conversions).cost
+  );
+  const normalized = normalizeGroup(amounts, "addOns", conversions);
+  if (!costs) return normalized;
+  return {
+    ...normalized,
+    extraordinaryMedical: extraordinaryMedicalFromCosts(costs).qualifying,
+    uninsuredMedicalByChild: costs,
+  };
+}
+
+/**
+ * Turns parsed case inputs into the all-monthly shape the calculator uses.
+ *
+ * Steps:
+ * 1.  Walk both parents' income, the add-ons, and both parents' direct
+ *     payments, converting any amount entered at another frequency.
+ * 2.  Where a parent's income was itemized, add up the sources that count
+ *     to get their actual monthly income; where uninsured medical costs were
+ *     listed per child, apply the extraordinary medical threshold; where a
+ *     family premium was given, apportion it and fill in the children's share
+ *     as the health insurance add-on and the paying parent's direct payment;
+ *     likewise for childcare built up from providers.  A parenting plan
+ *     sets Parent 1's overnights; without one they default to all 365.
+ * 3.  List each conversion in "frequencyConversions".  Parsing the result a
+ *     second time converts nothing, since every amount is already monthly,
+ *     and so lists nothing.
+ */
+export function normalizeFrequencies(v: CaseInputsEntry): CaseInputs {
+  const conversions: FrequencyConversion[] = [];
+  const { healthInsurancePremium, ...rest } = v;
+  const normalized: CaseInputs = {
+    ...rest,
+    overnightsParent1: v.parentingPlan
+      ? countOvernights(v.parentingPlan).overnightsParent1
+      : (v.overnightsParent1 ?? 365),
+    parent1: normalizeParent(v.parent1, "parent1", conversions),
+    parent2: normalizeParent(v.parent2, "parent2", conversions),
+    addOns: normalizeAddOns(v.addOns, conversions),
+    directPay: {
+      parent1: normalizeGroup(v.directPay.parent1, "directPay.parent1", conversions),
+      parent2: normalizeGroup(v.directPay.parent2, "directPay.parent2", conversions),
+    },
+  };
+  if (healthInsurancePremium) {
+    const { familyPremium, selfOnlyPremium } = healthInsurancePremium;
+    const premium = {
+      ...healthInsurancePremium,
+      ...normalizeGroup({ familyPremium }, "healthInsurancePremium", conversions),
+      selfOnlyPremium:
+        selfOnlyPremium == null
+          ? undefined
+          : normalizeGroup({ selfOnlyPremium }, "healthInsurancePremium", conversions).selfOnlyPremium,
+    };
+    const share = apportionPremium(premium).childrenShare;
+    const payer = premium.paidBy === "P1" ? "parent1" : "parent2";
+    normalized.healthInsurancePremium = premium;
+    normalized.addOns = { ...normalized.addOns, healthInsurance: share };
+    normalized.directPay = {
+      ...normalized.directPay,
+      [payer]: { ...normalized.directPay[payer], healthInsurance: share },
+    };
+  }
+  if (v.childcare) {
+    const cost = computeChildcare(v.childcare).net;
+    const payer = v.childcare.paidBy === "P1" ? "parent1" : "parent2";
+    normalized.addOns = { ...normalized.addOns, childcare: cost };
+    normalized.directPay = {
+      ...normalized.directPay,
+      [payer]: { ...normalized.directPay[payer], childcare: cost },
+    };
+  }
+  if (conversions.length > 0) normalized.frequencyConversions = conversions;
+  return normalized;
+}
@@ -0,0 +1,245 @@
+/**
+ * Schedule importer.  The statutory table is published as a spreadsheet: one
+ * row per combined-income level, one column per number of children, and an
+ * asterisk in front of amounts set by the self-support reserve.  This file
+ * reads that layout (as in docs/schedule.csv) and turns it into the Schedule
+ * object the calculator uses, listing every problem it finds along the way
+ * instead of stopping at the first one.
+ */
+import * as fs from "fs";
+import { validateSchedule, type Schedule, type ScheduleMeta } from "./schedule";
+
+/**
+ * One problem found while reading the file.  "line" is the 1-based line in
+ * the CSV text and "column" is the header of the offending cell, when there is
+ * one.
+ */
+export type ImportIssue = {
+  line: number | null;
+  column: string | null;
+  message: string;
+};
+
+/**
+ * Outcome of an import.  The schedule is only returned when no issues were
+ * found, so a caller can never use a half-read table by accident.
+ */
+export type ImportReport = {
+  ok: boolean;
+  schedule: Schedule | null;
+  issues: ImportIssue[];
+  rowCount: number;
+  selfSupportReserveCells: number;
+};
+
+/**
+ * Splits one CSV line into cells.  Handles double-quoted cells (including
+ * commas and doubled quotes inside them), which is all a spreadsheet export
+ * of this table needs.
+ */
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells.map((c) => c.trim());
+}
+
+/**
+ * Reads a dollar figure such as "1250", "$1,250" or "1250.00".  Returns null
+ * when the text is not a plain number.
+ */
+function parseAmount(text: string): number | null {
+  const cleaned = text.replace(/[$,\s]/g, "");
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+  return Number(cleaned);
+}
+
+/**
+ * Reads the income label in the first cell.  The opening row of the printed
+ * table is a range such as "0-1200"; we keep its upper end, which is the row
+ * the "next higher" rule lands on.
+ */
+function parseIncomeLabel(text: string): number | null {
+  const range = text.match(/^\$?[\d,]+\s*-\s*(\$?[\d,]+(\.\d+)?)$/);
+  return parseAmount(range ? range[1] : text);
+}
+
+/**
+ * Reads a column heading such as "1 Child", "3 Children" or "6 or More
+ * Children" into its child count, noting whether it is open-ended.
+ */
+function parseChildrenHeading(text: string): { key: string; openEnded: boolean } | null {
+  const match = text.match(/^(\d+)\b/);
+  if (!match) return null;
+  return { key: String(Number(match[1])), openEnded: /or\s+more/i.test(text) };
+}
+
+/**
+ * Parses schedule CSV text and checks the result.
+ *
+ * Steps:
+ * 1.  Read the header to learn which children column sits where.
+ * 2.  Read each row: the income label, then one amount per column, noting
+ *     asterisks as self-support reserve cells.
+ * 3.  Record ragged rows, cells that are not numbers, and incomes that do not
+ *     go up from one row to the next, with the line they were found on.
+ * 4.  If the rows were clean, run the same validateSchedule check the
+ *     calculator uses and record anything it rejects.
+ */
+export function importScheduleCsv(text: string, meta: ScheduleMeta = {}): ImportReport {
+  const issues: ImportIssue[] = [];
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex((l) => l.trim() !== "");
+  const empty: ImportReport = { ok: false, schedule: null, issues, rowCount: 0, selfSupportReserveCells: 0 };
+  if (headerIndex === -1) {
+    issues.push({ line: null, column: null, message: "File is empty." });
+    return empty;
+  }
+
+  const header = splitCsvLine(lines[headerIndex]);
+  const columns: Array<{ key: string; heading: string }> = [];
+  let openEndedColumn: string | undefined;
+  for (const heading of header.slice(1)) {
+    const parsed = parseChildrenHeading(heading);
+    if (!parsed) {
+      issues.push({ line: headerIndex + 1, column: heading, message: `Header "${heading}" does not start with a number of children.` });
+      continue;
+    }
+    if (columns.some((c) => c.key === parsed.key)) {
+      issues.push({ line: headerIndex + 1, column: heading, message: `Column for ${parsed.key} children appears twice.` });
+      continue;
+    }
+    if (parsed.openEnded) openEndedColumn = parsed.key;
+    columns.push({ key: parsed.key, heading });
+  }
+  if (columns.length === 0) {
+    issues.push({ line: headerIndex + 1, column: null, message: "Header names no children columns." });
+    return empty;
+  }
+  if (issues.length > 0) return empty;
+
+  const combinedMonthlyIncome: number[] = [];
+  const byChildren: Record<string, number[]> = {};
+  const selfSupportReserve: Record<string, boolean[]> = {};
+  for (const c of columns) {
+    byChildren[c.key] = [];
+    selfSupportReserve[c.key] = [];
+  }
+
+  let reserveCells = 0;
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === "") continue;
+    const lineNo = i + 1;
+    const cells = splitCsvLine(lines[i]);
+    if (cells.length !== header.length) {
+      issues.push({
+        line: lineNo,
+        column: null,
+        message: `Row has ${cells.length} cells; header has ${header.length}.`,
+      });
+      continue;
+    }
+
+    const income = parseIncomeLabel(cells[0]);
+    if (income == null) {
+      issues.push({ line: lineNo, column: header[0], message: `Income "${cells[0]}" is not a number.` });
+      continue;
+    }
+    const previous = combinedMonthlyIncome[combinedMonthlyIncome.length - 1];
+    if (previous != null && !(income > previous)) {
+      issues.push({
+        line: lineNo,
+        column: header[0],
+        message: `Income ${income} is not above the previous row (${previous}).`,
+      });
+    }
+
+    const amounts: number[] = [];
+    const flags: boolean[] = [];
+    let rowOk = true;
+    columns.forEach((c, j) => {
+      const raw = cells[j + 1];
+      const flagged = raw.startsWith("*");
+      const amount = parseAmount(flagged ? raw.slice(1) : raw);
+      if (amount == null) {
+        issues.push({ line: lineNo, column: c.heading, message: `Amount "${raw}" is not a number.` });
+        rowOk = false;
+        return;
+      }
+      amounts.push(amount);
+      flags.push(flagged);
+    });
+    if (!rowOk) continue;
+
+    combinedMonthlyIncome.push(income);
+    columns.forEach((c, j) => {
+      byChildren[c.key].push(amounts[j]);
+      selfSupportReserve[c.key].push(flags[j]);
+      if (flags[j]) reserveCells++;
+    });
+  }
+
+  const rowCount = combinedMonthlyIncome.length;
+  if (issues.length > 0) {
+    return { ...empty, rowCount, selfSupportReserveCells: reserveCells };
+  }
+
+  const schedule: Schedule = {
+    combinedMonthlyIncome,
+    byChildren,
+    ...(openEndedColumn ? { openEndedColumn } : {}),
+    flags: { selfSupportReserve },
+    meta: { units: "USD per month", ...meta },
+  };
+
+  try {
+    validateSchedule(schedule);
+  } catch (err) {
+    issues.push({ line: null, column: null, message: err instanceof Error ? err.message : String(err) });
+    return { ...empty, rowCount, selfSupportReserveCells: reserveCells };
+  }
+
+  return { ok: true, schedule, issues, rowCount, selfSupportReserveCells: reserveCells };
+}
+
+/**
+ * Reads a schedule CSV from disk and imports it.  See importScheduleCsv.
+ */
+export function importScheduleCsvFile(path: string, meta: ScheduleMeta = {}): ImportReport {
+  return importScheduleCsv(fs.readFileSync(path, "utf8"), meta);
+}
+
+/**
+ * Turns an import report into readable lines, one per issue, for printing in
+ * a terminal or log.
+ */
+export function formatImportIssues(report: ImportReport): string[] {
+  return report.issues.map((issue) => {
+    const where = [
+      issue.line != null ? `line ${issue.line}` : null,
+      issue.column ? `column "${issue.column}"` : null,
+    ].filter(Boolean).join(", ");
+    return where ? `${where}: ${issue.message}` : issue.message;
+  });
+}
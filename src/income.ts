@@ -0,0 +1,79 @@
+/**
+ * Itemized income helpers.  Family Law § 12-201 defines actual income by
+ * listing its sources: wages, self-employment and rental income (gross
+ * receipts minus ordinary and necessary expenses), severance, capital gains,
+ * Social Security, in-kind benefits and more.  It also leaves some things out,
+ * such as means-tested public assistance.  These helpers add up a parent's
+ * listed sources the way the statute does and keep every line so the
+ * itemization can be shown beside the worksheet.
+ */
+import type { IncomeItemization, IncomeLine, IncomeSource, IncomeSourceType } from "./schema";
+
+/**
+ * How each source type is treated.  "included" says whether it counts toward
+ * actual income; "netOfExpenses" marks the types measured as gross receipts
+ * minus expenses.
+ */
+export const INCOME_SOURCE_TYPES: Record<
+  IncomeSourceType,
+  { label: string; included: boolean; netOfExpenses: boolean }
+> = {
+  WAGES: { label: "Salary and wages", included: true, netOfExpenses: false },
+  COMMISSIONS_BONUSES: { label: "Commissions and bonuses", included: true, netOfExpenses: false },
+  SELF_EMPLOYMENT: { label: "Self-employment", included: true, netOfExpenses: true },
+  RENTAL: { label: "Rental property", included: true, netOfExpenses: true },
+  SEVERANCE: { label: "Severance pay", included: true, netOfExpenses: false },
+  CAPITAL_GAINS: { label: "Capital gains", included: true, netOfExpenses: false },
+  DIVIDENDS_INTEREST: { label: "Dividends and interest", included: true, netOfExpenses: false },
+  PENSION_ANNUITY: { label: "Pension and annuity", included: true, netOfExpenses: false },
+  TRUST: { label: "Trust income", included: true, netOfExpenses: false },
+  SOCIAL_SECURITY: { label: "Social Security benefits", included: true, netOfExpenses: false },
+  WORKERS_COMPENSATION: { label: "Workers' compensation", included: true, netOfExpenses: false },
+  UNEMPLOYMENT: { label: "Unemployment insurance", included: true, netOfExpenses: false },
+  DISABILITY_INSURANCE: { label: "Disability insurance", included: true, netOfExpenses: false },
+  GIFTS_PRIZES: { label: "Gifts, prizes and winnings", included: true, netOfExpenses: false },
+  IN_KIND: { label: "In-kind benefits and expense reimbursements", included: true, netOfExpenses: false },
+  OTHER: { label: "Other income", included: true, netOfExpenses: false },
+  MEANS_TESTED_ASSISTANCE: { label: "Means-tested public assistance", included: false, netOfExpenses: false },
+  CHILD_SUPPORT_RECEIVED: { label: "Child support received for other children", included: false, netOfExpenses: false },
+};
+
+/**
+ * Adds up a parent's income sources.
+ *
+ * Steps:
+ * 1.  For self-employment and rental income, subtract the expenses from the
+ *     gross receipts.  A loss counts as zero rather than reducing the
+ *     parent's other income.
+ * 2.  Sort each source into the included or excluded total by its type.
+ */
+export function itemizeIncome(sources: IncomeSource[]): IncomeItemization {
+  const lines = sources.map((s): IncomeLine => {
+    const info = INCOME_SOURCE_TYPES[s.type];
+    const expenses = info.netOfExpenses ? s.expenses ?? 0 : 0;
+    return {
+      type: s.type,
+      label: info.label,
+      description: s.description ?? null,
+      gross: s.amount,
+      expenses,
+      counted: Math.max(0, s.amount - expenses),
+      included: info.included,
+    };
+  });
+  return {
+    lines,
+    includedTotal: lines.filter((l) => l.included).reduce((sum, l) => sum + l.counted, 0),
+    excludedTotal: lines.filter((l) => !l.included).reduce((sum, l) => sum + l.counted, 0),
+  };
+}
+
+/**
+ * Sentence for the notes list when a parent listed sources that do not count,
+ * so a reader can see they were considered and left out on purpose.
+ */
+export function excludedIncomeNote(who: "P1" | "P2", itemization: IncomeItemization | null): string | null {
+  if (!itemization || itemization.excludedTotal <= 1e-6) return null;
+  const labels = [...new Set(itemization.lines.filter((l) => !l.included).map((l) => l.label.toLowerCase()))];
+  return `${who}'s itemized income leaves out ${itemization.excludedTotal.toFixed(2)} of excluded sources (${labels.join(", ")}).`;
+}
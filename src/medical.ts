@@ -0,0 +1,64 @@
+/**
+ * Extraordinary medical expense helpers.  Under the guidelines only the
+ * uninsured medical costs above $100 per child per year are "extraordinary";
+ * the first $100 is treated as ordinary and already covered by the basic
+ * obligation.  These helpers take each child's raw uninsured costs, apply the
+ * threshold, and report both the qualifying amount and what was left out.
+ */
+
+/**
+ * The yearly amount per child that counts as ordinary medical expense.
+ */
+export const EXTRAORDINARY_MEDICAL_THRESHOLD = 100;
+
+/**
+ * How the threshold played out.  Every amount is monthly, like the rest of
+ * the worksheet; "qualifying" is what goes on line A-4c or 13c.
+ */
+export type ExtraordinaryMedical = {
+  perChild: Array<{ cost: number; excluded: number; qualifying: number }>;
+  totalCost: number;
+  excluded: number;
+  qualifying: number;
+};
+
+/**
+ * Applies the $100-per-child-per-year threshold to monthly uninsured costs.
+ *
+ * Steps:
+ * 1.  Turn the yearly threshold into a monthly one (100 ÷ 12).
+ * 2.  For each child, the cost up to that amount is ordinary and left out;
+ *     only the part above it qualifies.
+ * 3.  Add the children together.
+ */
+export function extraordinaryMedicalFromCosts(costs: number[]): ExtraordinaryMedical {
+  const monthlyThreshold = EXTRAORDINARY_MEDICAL_THRESHOLD / 12;
+  const perChild = costs.map((cost) => {
+    const excluded = Math.min(cost, monthlyThreshold);
+    return { cost, excluded, qualifying: cost - excluded };
+  });
+  const sum = (key: "cost" | "excluded" | "qualifying") => perChild.reduce((t, c) => t + c[key], 0);
+  return { perChild, totalCost: sum("cost"), excluded: sum("excluded"), qualifying: sum("qualifying") };
+}
+
+/**
+ * Worksheet lines showing the raw costs and the part below the threshold
+ * beside the qualifying amount on line 4c (Worksheet A) or 13c (Worksheet B).
+ */
+export function extraordinaryMedicalLines(line: number, e: ExtraordinaryMedical | null): Record<string, number> {
+  if (!e) return {};
+  return {
+    [`line${line}c_uninsuredMedicalCosts`]: e.totalCost,
+    [`line${line}c_belowThreshold`]: e.excluded,
+  };
+}
+
+/**
+ * Sentence for the notes list explaining the portion left out, in yearly
+ * terms since that is how the threshold is written.
+ */
+export function extraordinaryMedicalNote(e: ExtraordinaryMedical | null): string | null {
+  if (!e || e.excluded <= 1e-6) return null;
+  const children = e.perChild.length === 1 ? "1 child" : `${e.perChild.length} children`;
+  return `Extraordinary medical: the first ${EXTRAORDINARY_MEDICAL_THRESHOLD.toFixed(2)} per child per year of uninsured costs is ordinary, so ${(e.excluded * 12).toFixed(2)} a year of the ${(e.totalCost * 12).toFixed(2)} reported for ${children} was left out; ${e.qualifying.toFixed(2)} a month qualifies.`;
+}
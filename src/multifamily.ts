@@ -6,13 +6,15 @@
 import type { ParentIncome } from "./schema";
 import type { Schedule } from "./schedule";
 import { lookupBasicObligation } from "./schedule";
+import { incomeForWorksheet } from "./potential";
 
 /**
  * Computes the allowed deduction for the given parent based on the statewide
  * schedule.
  *
  * Steps:
- * 1.  Look up the basic obligation for one child using the parent's own income.
+ * 1.  Look up the basic obligation for one child using the parent's own income
+ *     (their potential income, when the court imputed one).
  * 2.  Take 75% of that amount.
  * 3.  Multiply by the number of children in the parent's household who are not
  *     part of this case.
@@ -28,7 +30,7 @@ export function multifamilyAllowance(
 
   const lookup = lookupBasicObligation(
     schedule,
-    parent.actualMonthly,
+    incomeForWorksheet(parent),
     1
   );
 
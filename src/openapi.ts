@@ -0,0 +1,157 @@
+/**
+ * Contract documents for the JSON API.  The Zod schemas in schema.ts and
+ * api.ts are the single source of truth for what a case looks like going in
+ * and coming out; this file turns them into JSON Schema and an OpenAPI
+ * document so systems not written in TypeScript can build a client against
+ * the same rules.  Nothing here is written by hand, so the documents cannot
+ * drift from the validation the server actually runs.
+ */
+import { z } from "zod";
+import { API_VERSION, ApiError } from "./api";
+import { BatchReport } from "./batch";
+import { CaseInputs, CaseOutputs } from "./schema";
+
+/**
+ * Generated JSON Schema (draft 2020-12) for a case as a client sends it:
+ * amounts may carry a frequency and optional fields may be left out.
+ * Cross-field rules, such as SPLIT needing childrenWithParent1, are not
+ * expressible here; the API reports them as 422 validation errors.
+ */
+export function caseInputsJsonSchema(): Record<string, unknown> {
+  return z.toJSONSchema(CaseInputs, { io: "input" });
+}
+
+/**
+ * Generated JSON Schema (draft 2020-12) for the outputs the calculator
+ * returns.
+ */
+export function caseOutputsJsonSchema(): Record<string, unknown> {
+  return z.toJSONSchema(CaseOutputs, { io: "output" });
+}
+
+/**
+ * Generates component schemas for a group of schemas in one direction:
+ * "input" for what clients send, "output" for what the server returns.
+ * Schemas in the same group point at each other by $ref.
+ */
+function componentSchemas(
+  entries: Array<[z.ZodType, string]>,
+  io: "input" | "output"
+): Record<string, unknown> {
+  const registry = z.registry<{ id: string }>();
+  for (const [schema, id] of entries) registry.add(schema, { id });
+  const generated = z.toJSONSchema(registry, {
+    io,
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+  const schemas: Record<string, unknown> = {};
+  for (const [id, schema] of Object.entries(generated.schemas)) {
+    const { $schema: _dialect, $id: _id, ...rest } = schema;
+    schemas[id] = rest;
+  }
+  return schemas;
+}
+
+/**
+ * Builds the OpenAPI 3.1 document for the versioned API: the single-case
+ * and batch calculate endpoints, and the documents describing them.  OpenAPI 3.1 uses JSON Schema 2020-12
+ * directly, so the request, response and error schemas go into components
+ * as generated, with shared parts pointing at each other by $ref.  The
+ * request body is described as a client may send it and the responses as
+ * the server returns them, with every field they carry.
+ */
+export function openApiDocument(): Record<string, unknown> {
+  const schemas = {
+    ...componentSchemas([[CaseInputs, "CaseInputs"]], "input"),
+    ...componentSchemas(
+      [
+        [CaseOutputs, "CaseOutputs"],
+        [BatchReport, "BatchReport"],
+        [ApiError, "ApiError"],
+      ],
+      "output"
+    ),
+  };
+
+  const json = (ref: string) => ({ "application/json": { schema: { $ref: `#/components/schemas/${ref}` } } });
+  const error = (description: string) => ({ description, content: json("ApiError") });
+  const responses = {
+    NotFound: error("There is no API route at the requested path."),
+    MethodNotAllowed: {
+      ...error("The path was called with a method it does not accept."),
+      headers: {
+        Allow: { description: "The one method the path accepts.", schema: { type: "string" } },
+      },
+    },
+  };
+  const ref = (id: keyof typeof responses) => ({ $ref: `#/components/responses/${id}` });
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Maryland Child Support Calculator API",
+      version: API_VERSION,
+      description:
+        "Runs the Maryland child support guidelines (Worksheets A and B) for one case. Amounts are monthly unless given with a frequency. Any other path under the API answers 404 (components.responses.NotFound).",
+    },
+    paths: {
+      [`/api/${API_VERSION}/calculate`]: {
+        post: {
+          operationId: "calculateCase",
+          summary: "Calculate the guideline amount for one case",
+          requestBody: { required: true, content: json("CaseInputs") },
+          responses: {
+            "200": { description: "The worksheet outputs.", content: json("CaseOutputs") },
+            "400": error("The body is not JSON, or not a JSON object."),
+            "405": ref("MethodNotAllowed"),
+            "413": error("The body is larger than the API accepts."),
+            "415": error("The body was not sent as application/json."),
+            "422": error("The case failed validation, or no schedule is in force on its asOfDate; every problem is listed under error.issues."),
+            "500": error("The calculator could not run the case."),
+          },
+        },
+      },
+      [`/api/${API_VERSION}/batch`]: {
+        post: {
+          operationId: "calculateBatch",
+          summary: "Calculate many cases from a CSV or JSON Lines file",
+          description:
+            "Each JSON Lines record is one CaseInputs object. Each CSV row is one case, with dotted CaseInputs paths as column headings (\"parent1.actualMonthly\"). A record may carry a caseId. Records that fail are listed in the report; they do not fail the request.",
+          requestBody: {
+            required: true,
+            content: {
+              "text/csv": { schema: { type: "string" } },
+              "application/x-ndjson": { schema: { type: "string" } },
+            },
+          },
+          responses: {
+            "200": { description: "Each case's outputs or errors, with a summary.", content: json("BatchReport") },
+            "400": error("The body holds no cases."),
+            "405": ref("MethodNotAllowed"),
+            "413": error("The body is larger than the API accepts."),
+            "415": error("The body was not sent as CSV or JSON Lines."),
+          },
+        },
+      },
+      ...Object.fromEntries(
+        [
+          ["openapi.json", "getOpenApiDocument", "This OpenAPI document."],
+          ["schema/case-inputs.json", "getCaseInputsSchema", "The JSON Schema for a case as a client sends it."],
+          ["schema/case-outputs.json", "getCaseOutputsSchema", "The JSON Schema for the outputs."],
+        ].map(([file, operationId, description]) => [
+          `/api/${API_VERSION}/${file}`,
+          {
+            get: {
+              operationId,
+              responses: {
+                "200": { description, content: { "application/json": { schema: { type: "object" } } } },
+                "405": ref("MethodNotAllowed"),
+              },
+            },
+          },
+        ])
+      ),
+    },
+    components: { schemas, responses },
+  };
+}
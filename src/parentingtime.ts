@@ -0,0 +1,134 @@
+/**
+ * Parenting-time helpers.  Worksheet B needs Parent 1's overnights for a
+ * year, and counting them by hand from a rotating schedule is easy to get
+ * wrong.  These helpers walk every night of the year through the parenting
+ * plan, apply holiday and summer overrides, and report the count, adjusting
+ * for leap years so the worksheet still works on a 365-night year.
+ */
+import type { ParentingPattern, ParentingPlan, ParentingTimeOverride } from "./schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Who has each night of the two-week cycle: "F" for the plan's first parent,
+ * "O" for the other.  Day 0 is the plan's start date.
+ */
+const CYCLES: Record<ParentingPattern, string> = {
+  TWO_TWO_THREE: "FFOOFFFOOFFOOO",
+  ALTERNATING_WEEKS: "FFFFFFFOOOOOOO",
+  EVERY_OTHER_WEEKEND_MIDWEEK: "OOFOFFOOOFOOOO",
+};
+
+/**
+ * Plain-language names for each pattern, used in notes and the wizard.
+ */
+export const PARENTING_PATTERN_LABELS: Record<ParentingPattern, string> = {
+  TWO_TWO_THREE: "2-2-3 rotation",
+  ALTERNATING_WEEKS: "alternating weeks",
+  EVERY_OTHER_WEEKEND_MIDWEEK: "every other weekend plus a midweek night",
+};
+
+/**
+ * Parent 1's count for the year.  "overnightsParent1" is the figure for the
+ * worksheet: the same share of a 365-night year, rounded to a whole night.
+ * "overrides" lists how many nights each override covered this year.
+ */
+export type OvernightCount = {
+  year: number;
+  nightsInYear: number;
+  p1Nights: number;
+  p2Nights: number;
+  overnightsParent1: number;
+  overrides: Array<{ label: string; parent: "P1" | "P2"; nights: number }>;
+};
+
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function dayNumber(isoDate: string): number {
+  return Math.round(Date.parse(`${isoDate}T00:00:00Z`) / DAY_MS);
+}
+
+/**
+ * Turns "MM-DD" into the night's index within the year.  February 29 falls
+ * back to February 28 outside leap years.
+ */
+function nightOfYear(year: number, monthDay: string): number {
+  const [month, day] = monthDay.split("-").map(Number);
+  const clamped = month === 2 && day === 29 && !isLeapYear(year) ? 28 : day;
+  return Math.round((Date.UTC(year, month - 1, clamped) - Date.UTC(year, 0, 1)) / DAY_MS);
+}
+
+function overrideApplies(o: ParentingTimeOverride, year: number): boolean {
+  if (o.years === "EVEN") return year % 2 === 0;
+  if (o.years === "ODD") return year % 2 === 1;
+  return true;
+}
+
+/**
+ * Counts Parent 1's overnights for the plan's year.
+ *
+ * Steps:
+ * 1.  For every night from January 1 to December 31 (366 in a leap year),
+ *     find its place in the two-week cycle counted from the start date and
+ *     give it to the parent the pattern names.
+ * 2.  Apply each override that runs this year, in order, giving its nights to
+ *     the override's parent.  A range whose end comes before its start wraps
+ *     over New Year (for example 12-30 to 01-02) and belongs to the year it
+ *     starts in: this year gets its December nights when it runs this year,
+ *     and its January nights when it ran last year.
+ * 3.  Count Parent 1's nights.  For the worksheet, scale that count to a
+ *     365-night year and round, so a leap year does not push the total past
+ *     365.
+ */
+export function countOvernights(plan: ParentingPlan): OvernightCount {
+  const { year } = plan;
+  const nightsInYear = isLeapYear(year) ? 366 : 365;
+  const cycle = CYCLES[plan.pattern];
+  const other = plan.firstParent === "P1" ? "P2" : "P1";
+  const start = dayNumber(plan.startDate);
+  const jan1 = dayNumber(`${String(year).padStart(4, "0")}-01-01`);
+
+  const nights: Array<"P1" | "P2"> = [];
+  for (let i = 0; i < nightsInYear; i++) {
+    const position = (((jan1 + i - start) % cycle.length) + cycle.length) % cycle.length;
+    nights.push(cycle[position] === "F" ? plan.firstParent : other);
+  }
+
+  const overrides: OvernightCount["overrides"] = [];
+  for (const o of plan.overrides) {
+    const from = nightOfYear(year, o.from);
+    const to = nightOfYear(year, o.to);
+    const covered = from <= to
+      ? overrideApplies(o, year) ? Array.from({ length: to - from + 1 }, (_, k) => from + k) : []
+      : [
+          ...(overrideApplies(o, year - 1) ? Array.from({ length: to + 1 }, (_, k) => k) : []),
+          ...(overrideApplies(o, year) ? Array.from({ length: nightsInYear - from }, (_, k) => from + k) : []),
+        ];
+    if (covered.length === 0) continue;
+    for (const night of covered) nights[night] = o.parent;
+    overrides.push({ label: o.label, parent: o.parent, nights: covered.length });
+  }
+
+  const p1Nights = nights.filter((n) => n === "P1").length;
+  return {
+    year,
+    nightsInYear,
+    p1Nights,
+    p2Nights: nightsInYear - p1Nights,
+    overnightsParent1: Math.round((p1Nights * 365) / nightsInYear),
+    overrides,
+  };
+}
+
+/**
+ * Sentence for the notes list describing where the overnights came from.
+ */
+export function overnightCountNote(plan: ParentingPlan, c: OvernightCount): string {
+  const scaled = c.nightsInYear === 365 ? "" : `, ${c.overnightsParent1} on a 365-night basis`;
+  const overrides = c.overrides.length > 0
+    ? `; overrides: ${c.overrides.map((o) => `${o.label} (${o.parent}, ${o.nights} nights)`).join(", ")}`
+    : "";
+  return `Overnights from the parenting plan (${PARENTING_PATTERN_LABELS[plan.pattern]}, ${plan.firstParent} first from ${plan.startDate}) for ${c.year}: P1 has ${c.p1Nights} of ${c.nightsInYear} nights${scaled}${overrides}.`;
+}
@@ -0,0 +1,108 @@
+/**
+ * Per-child custody helpers.  Brothers and sisters do not always keep the
+ * same schedule; a teenager may live mostly with one parent while the younger
+ * children split their time.  When overnights are given child by child we
+ * sort the children into groups that get the same worksheet, run each group
+ * as its own case, and add the results into one order.
+ */
+import type { CaseInputs } from "./schema";
+import { meetsSharedThreshold } from "./shared";
+import { addOnSharingPhrase, childSpecificAddOns, portionForChildren } from "./split";
+
+/**
+ * How a group of children is treated: shared custody (Worksheet B), or
+ * primary custody with one parent (Worksheet A).
+ */
+export type ChildGroupKind = "SHARED" | "PRIMARY_P1" | "PRIMARY_P2";
+
+/**
+ * One group of children.  "children" holds their 1-based numbers and
+ * "overnights" Parent 1's overnights for each of them; "inputs" is the case
+ * to run for the group.
+ */
+export type ChildGroup = {
+  kind: ChildGroupKind;
+  children: number[];
+  overnights: number[];
+  inputs: CaseInputs;
+};
+
+const GROUP_ORDER: ChildGroupKind[] = ["SHARED", "PRIMARY_P1", "PRIMARY_P2"];
+
+/**
+ * Plain-language name for each group, used in notes and the worksheet.
+ */
+export const CHILD_GROUP_LABELS: Record<ChildGroupKind, string> = {
+  SHARED: "shared custody (Worksheet B)",
+  PRIMARY_P1: "primary custody with P1 (Worksheet A)",
+  PRIMARY_P2: "primary custody with P2 (Worksheet A)",
+};
+
+/**
+ * Decides how one child is treated.  If each parent has the child at least
+ * 92 nights it is shared custody; otherwise the parent with more nights is
+ * the primary custodian.
+ */
+export function classifyChild(overnightsParent1: number): ChildGroupKind {
+  if (meetsSharedThreshold(overnightsParent1)) return "SHARED";
+  return overnightsParent1 > 365 - overnightsParent1 ? "PRIMARY_P1" : "PRIMARY_P2";
+}
+
+/**
+ * Sorts the children into groups and builds the case for each.
+ *
+ * Steps:
+ * 1.  Classify every child by Parent 1's overnights with that child.
+ * 2.  Children with the same treatment form a group.  Each group keeps the
+ *     parents' full incomes, uses the number of children in it, and takes a
+ *     share of the add-ons and direct payments in proportion to its size;
+ *     costs given for a particular child go with that child's group.
+ * 3.  A shared group uses the average of its children's overnights, rounded
+ *     to a whole night, for Worksheet B lines 6 and 7.
+ *
+ * When every child lands in the same group, that group is the whole case and
+ * keeps the self-support reserve; otherwise the reserve is left for the
+ * combined amount.
+ */
+export function groupChildren(inputs: CaseInputs): ChildGroup[] {
+  const overnights = inputs.overnightsByChild ?? [];
+  const kinds = overnights.map(classifyChild);
+  const present = GROUP_ORDER.filter((kind) => kinds.includes(kind));
+  return present.map((kind) => {
+    const children = kinds.flatMap((k, i) => (k === kind ? [i + 1] : []));
+    const groupOvernights = children.map((c) => overnights[c - 1]);
+    const base = present.length === 1 ? inputs : portionForChildren(inputs, children);
+    const average = Math.round(groupOvernights.reduce((sum, n) => sum + n, 0) / children.length);
+    return {
+      kind,
+      children,
+      overnights: groupOvernights,
+      inputs:
+        kind === "SHARED"
+          ? { ...base, custodyType: "SHARED", overnightsParent1: average }
+          : { ...base, custodyType: "PRIMARY", primaryCustodian: kind === "PRIMARY_P1" ? "P1" : "P2" },
+    };
+  });
+}
+
+/**
+ * Sentence for the notes list explaining how the children were grouped.
+ * "inputs" is the whole case, used to say how the add-ons were divided.
+ */
+export function groupingNote(groups: ChildGroup[], inputs: CaseInputs): string {
+  const described = groups.map((g) => {
+    const who = g.children
+      .map((c, i) => `child ${c} (${g.overnights[i]} overnights with P1)`)
+      .join(", ");
+    const average = g.kind === "SHARED" && g.children.length > 1
+      ? `, using ${g.inputs.overnightsParent1} overnights on average`
+      : "";
+    return `${who}: ${CHILD_GROUP_LABELS[g.kind]}${average}`;
+  });
+  const byChild = childSpecificAddOns(inputs);
+  const sharing = byChild.length > 0 ? ` (divided ${addOnSharingPhrase(byChild)})` : "";
+  const combined = groups.length > 1
+    ? ` Each group was calculated on its own with its share of the add-ons${sharing}, and the amounts were added into one order.`
+    : "";
+  return `Children grouped by overnights: ${described.join("; ")}.${combined}`;
+}
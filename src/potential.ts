@@ -0,0 +1,60 @@
+/**
+ * Potential income helpers.  When a court finds a parent voluntarily
+ * impoverished it may use the income that parent could be earning instead of
+ * (or on top of) what they actually earn.  These helpers work out that figure,
+ * decide which income goes on line 1 of the worksheet, and describe the
+ * imputation in plain words for the notes.
+ */
+import type { ParentIncome, PotentialIncome, PotentialIncomeBasis } from "./schema";
+import { MONTHLY_FACTORS } from "./frequency";
+
+/**
+ * Plain-language names for each basis, used in the notes list.
+ */
+export const POTENTIAL_INCOME_BASIS_LABELS: Record<PotentialIncomeBasis, string> = {
+  PRIOR_EARNINGS: "prior earnings",
+  HOURS_TIMES_WAGE: "hours times wage",
+  OCCUPATIONAL_DATA: "occupational wage data",
+  OTHER: "other evidence",
+};
+
+/**
+ * Monthly potential income.  For the hours-times-wage basis this is weekly
+ * hours × hourly wage × 52 ÷ 12; otherwise it is the amount found.
+ */
+export function potentialMonthlyIncome(pi: PotentialIncome): number {
+  if (pi.basis === "HOURS_TIMES_WAGE") {
+    return (pi.hoursPerWeek ?? 0) * (pi.hourlyWage ?? 0) * MONTHLY_FACTORS.WEEKLY;
+  }
+  return pi.amount ?? 0;
+}
+
+/**
+ * The income that goes on line 1 for this parent: actual income, potential
+ * income in its place, or the two added together.
+ */
+export function incomeForWorksheet(p: ParentIncome): number {
+  if (!p.potentialIncome) return p.actualMonthly;
+  const potential = potentialMonthlyIncome(p.potentialIncome);
+  return p.potentialIncome.mode === "ADD" ? p.actualMonthly + potential : potential;
+}
+
+/**
+ * Sentence for the notes list naming the imputed figure, its basis and how it
+ * was combined with actual income.  Returns nothing when none was imputed.
+ */
+export function potentialIncomeNote(who: "P1" | "P2", p: ParentIncome): string | null {
+  const pi = p.potentialIncome;
+  if (!pi) return null;
+  const potential = potentialMonthlyIncome(pi).toFixed(2);
+  const basis =
+    pi.basis === "HOURS_TIMES_WAGE"
+      ? `${POTENTIAL_INCOME_BASIS_LABELS[pi.basis]}: ${pi.hoursPerWeek} hours a week at ${(pi.hourlyWage ?? 0).toFixed(2)} an hour`
+      : POTENTIAL_INCOME_BASIS_LABELS[pi.basis];
+  const how =
+    pi.mode === "ADD"
+      ? `added to actual income of ${p.actualMonthly.toFixed(2)}`
+      : `used in place of actual income of ${p.actualMonthly.toFixed(2)}`;
+  const explanation = pi.explanation?.trim() ? ` ${pi.explanation.trim()}` : "";
+  return `${who} imputed potential income of ${potential} (${basis}), ${how}.${explanation}`;
+}
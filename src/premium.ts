@@ -0,0 +1,82 @@
+/**
+ * Health insurance premium helpers.  Worksheet line A-4b / 13b wants only the
+ * part of a premium that covers the children in this case, but people usually
+ * know the whole family-plan premium instead.  These helpers work out the
+ * children's part the way it is commonly done and keep every step so the
+ * worksheet can show the arithmetic.
+ */
+import type { HealthInsurancePremium } from "./schema";
+
+/**
+ * The derivation, step by step.  With a self-only premium we take the
+ * difference between the family and self-only premiums as the cost of the
+ * dependents and split it among them ("selfOnlyDifference").  Without one we
+ * split the whole family premium among everyone on the plan ("perPerson").
+ */
+export type PremiumApportionment = {
+  paidBy: "P1" | "P2";
+  method: "selfOnlyDifference" | "perPerson";
+  familyPremium: number;
+  selfOnlyPremium: number | null;
+  apportionedPremium: number;
+  peopleSharing: number;
+  perPerson: number;
+  childrenCovered: number;
+  childrenShare: number;
+};
+
+/**
+ * Works out the children's share of a premium.
+ *
+ * Steps:
+ * 1.  If a self-only premium is known, subtract it from the family premium;
+ *     what is left pays for the dependents, so we share it among everyone
+ *     except the policyholder.  Otherwise share the whole family premium
+ *     among everyone covered.
+ * 2.  Divide to get the cost per person.
+ * 3.  Multiply by the number of children in this case on the plan.
+ */
+export function apportionPremium(p: HealthInsurancePremium): PremiumApportionment {
+  const hasSelfOnly = p.selfOnlyPremium != null;
+  const apportionedPremium = hasSelfOnly ? p.familyPremium - (p.selfOnlyPremium ?? 0) : p.familyPremium;
+  const peopleSharing = hasSelfOnly ? p.peopleCovered - 1 : p.peopleCovered;
+  const perPerson = apportionedPremium / peopleSharing;
+  return {
+    paidBy: p.paidBy,
+    method: hasSelfOnly ? "selfOnlyDifference" : "perPerson",
+    familyPremium: p.familyPremium,
+    selfOnlyPremium: p.selfOnlyPremium ?? null,
+    apportionedPremium,
+    peopleSharing,
+    perPerson,
+    childrenCovered: p.childrenCovered,
+    childrenShare: perPerson * p.childrenCovered,
+  };
+}
+
+/**
+ * Worksheet lines for the derivation, hung off line 4b (Worksheet A) or 13b
+ * (Worksheet B).
+ */
+export function premiumLines(line: number, a: PremiumApportionment | null): Record<string, number> {
+  if (!a) return {};
+  const prefix = `line${line}b`;
+  const lines: Record<string, number> = {
+    [`${prefix}_familyPremium`]: a.familyPremium,
+  };
+  if (a.selfOnlyPremium != null) lines[`${prefix}_selfOnlyPremium`] = a.selfOnlyPremium;
+  lines[`${prefix}_peopleSharingPremium`] = a.peopleSharing;
+  lines[`${prefix}_premiumPerPerson`] = a.perPerson;
+  lines[`${prefix}_childrenCovered`] = a.childrenCovered;
+  return lines;
+}
+
+/**
+ * Sentence for the notes list spelling the arithmetic out.
+ */
+export function premiumNote(a: PremiumApportionment): string {
+  const base = a.selfOnlyPremium != null
+    ? `(family premium ${a.familyPremium.toFixed(2)} − self-only premium ${a.selfOnlyPremium.toFixed(2)}) ÷ ${a.peopleSharing} dependents`
+    : `family premium ${a.familyPremium.toFixed(2)} ÷ ${a.peopleSharing} people covered`;
+  return `Health insurance paid by ${a.paidBy}: ${base} × ${a.childrenCovered} children in this case = ${a.childrenShare.toFixed(2)}.`;
+}
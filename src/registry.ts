@@ -0,0 +1,120 @@
+/**
+ * Schedule registry.  Maryland has replaced its schedule over the years (most
+ * recently on July 1, 2022), and a modification case may need the table that
+ * was in force on a particular date.  The registry keeps every table we know
+ * about, ordered by the day it took effect, and picks the right one for an
+ * "as of" date.
+ */
+import { compileSchedule, demoSchedule, type Schedule } from "./schedule";
+
+/**
+ * One table in the registry together with its label and start date
+ * (YYYY-MM-DD).
+ */
+export type ScheduleVersion = {
+  version: string;
+  effectiveDate: string;
+  schedule: Schedule;
+};
+
+/**
+ * Every known table, oldest first.
+ */
+export type ScheduleRegistry = {
+  versions: ScheduleVersion[];
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Builds a registry from a list of schedules.
+ *
+ * Each schedule's label and start date come from its "meta" block unless the
+ * caller spells them out.  We keep a checked, locked copy of every table
+ * (see compileSchedule), sort them by start date, and refuse two tables that
+ * start on the same day or share a label.
+ */
+export function createScheduleRegistry(
+  entries: Array<Schedule | ScheduleVersion>
+): ScheduleRegistry {
+  const versions = entries.map((entry): ScheduleVersion => {
+    if ("schedule" in entry) return { ...entry, schedule: compileSchedule(entry.schedule) };
+    const version = entry.meta?.version;
+    const effectiveDate = entry.meta?.effectiveDate;
+    if (typeof version !== "string" || typeof effectiveDate !== "string") {
+      throw new Error("Schedule meta must include version and effectiveDate to join a registry.");
+    }
+    return { version, effectiveDate, schedule: compileSchedule(entry) };
+  });
+
+  const seenVersions = new Set<string>();
+  const seenDates = new Set<string>();
+  for (const v of versions) {
+    if (!ISO_DATE.test(v.effectiveDate)) {
+      throw new Error(`Schedule ${v.version} effectiveDate "${v.effectiveDate}" must be YYYY-MM-DD.`);
+    }
+    if (seenVersions.has(v.version)) {
+      throw new Error(`Schedule version ${v.version} is registered twice.`);
+    }
+    if (seenDates.has(v.effectiveDate)) {
+      throw new Error(`Two schedules take effect on ${v.effectiveDate}.`);
+    }
+    seenVersions.add(v.version);
+    seenDates.add(v.effectiveDate);
+  }
+
+  versions.sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  return { versions };
+}
+
+/**
+ * Tells a registry apart from a single schedule, so callers can accept either.
+ */
+export function isScheduleRegistry(
+  value: Schedule | ScheduleRegistry
+): value is ScheduleRegistry {
+  return Array.isArray((value as ScheduleRegistry).versions);
+}
+
+/**
+ * Picks the table in force on the given date: the latest one whose start date
+ * is on or before it.  Dates before the oldest table are an error rather than
+ * a silent guess.
+ */
+export function scheduleForDate(
+  registry: ScheduleRegistry,
+  asOfDate: string
+): ScheduleVersion {
+  let match: ScheduleVersion | null = null;
+  for (const v of registry.versions) {
+    if (v.effectiveDate <= asOfDate) match = v;
+  }
+  if (!match) {
+    const oldest = registry.versions[0]?.effectiveDate ?? "none";
+    throw new Error(
+      `No schedule in effect on ${asOfDate} (earliest registered: ${oldest}); register the table in force on that date to calculate it.`
+    );
+  }
+  return match;
+}
+
+/**
+ * Today's date as YYYY-MM-DD, used when a case gives no "as of" date.
+ */
+export function todayIsoDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Registry holding the built-in schedule.
+ *
+ * Only the July 2022 table ships with the project, so cases dated before
+ * 2022-07-01 are outside what the built-in registry can calculate: the
+ * project has no source copy of the October 2010 table to check figures
+ * against, and a guessed table would be worse than a clear error.  A caller
+ * who has that table can import it (importScheduleCsv, with its version and
+ * effectiveDate in meta) and build a registry holding both with
+ * createScheduleRegistry; modifications spanning July 2022 then pick each
+ * table by date.
+ */
+export const defaultScheduleRegistry: ScheduleRegistry = createScheduleRegistry([demoSchedule]);
@@ -6,15 +6,40 @@
  */
 import scheduleJson from "./schedule-data.json";
 
+/**
+ * Marks kept alongside the dollar amounts.  The printed schedule puts an
+ * asterisk next to every amount that already reflects the self-support
+ * reserve; here each children column carries a matching list of true/false
+ * values, one per income row.
+ */
+export type ScheduleFlags = {
+  selfSupportReserve?: Record<string, boolean[]>;
+};
+
+/**
+ * Descriptive details stored with a schedule.  "version" is a short label we
+ * copy into every result, and "effectiveDate" (YYYY-MM-DD) is the first day
+ * the table applies.  Anything else is kept for reference only.
+ */
+export type ScheduleMeta = {
+  version?: string;
+  effectiveDate?: string;
+  [key: string]: unknown;
+};
+
 /**
  * The shape of the schedule data loaded from JSON.  Every entry in the table
  * uses the same list of income levels, and each "byChildren" column holds the
- * obligation amounts for that number of children.
+ * obligation amounts for that number of children.  "openEndedColumn" names the
+ * column that also covers every larger family, like the printed "6 or More
+ * Children" heading.
  */
 export type Schedule = {
   combinedMonthlyIncome: number[];
   byChildren: Record<string, number[]>;
-  meta?: Record<string, unknown>;
+  openEndedColumn?: string;
+  flags?: ScheduleFlags;
+  meta?: ScheduleMeta;
 };
 
 /**
@@ -42,6 +67,65 @@ export function validateSchedule(s: Schedule): void {
       );
     }
   }
+  if (s.openEndedColumn != null) {
+    if (!s.byChildren[s.openEndedColumn]) {
+      throw new Error(`openEndedColumn "${s.openEndedColumn}" is not a byChildren column.`);
+    }
+    if (Number(s.openEndedColumn) !== highestChildrenColumn(s)) {
+      throw new Error(`openEndedColumn "${s.openEndedColumn}" must be the highest children column.`);
+    }
+  }
+  for (const [k, arr] of Object.entries(s.flags?.selfSupportReserve ?? {})) {
+    if (!Array.isArray(arr) || arr.length !== expected) {
+      throw new Error(
+        `flags.selfSupportReserve["${k}"] length ${Array.isArray(arr) ? arr.length : "N/A"} != incomes length ${expected}`
+      );
+    }
+  }
+}
+
+/**
+ * The locked copies compileSchedule has handed out.  A single case looks the
+ * table up several times (multifamily allowance, basic obligation, the
+ * shared-custody cap), and batch runs do that thousands of times, so a table
+ * that is already one of these copies is not checked again.  Only the copies
+ * are remembered: the caller's own object can still be edited, so it is read
+ * and checked afresh on every call.
+ */
+const compiledSchedules = new WeakSet<Schedule>();
+
+function frozenColumns(columns: Record<string, number[]>): Record<string, number[]>;
+function frozenColumns(columns: Record<string, boolean[]>): Record<string, boolean[]>;
+function frozenColumns(columns: Record<string, unknown[]>): Record<string, unknown[]> {
+  return Object.freeze(
+    Object.fromEntries(Object.entries(columns).map(([k, col]) => [k, Object.freeze([...col])]))
+  ) as Record<string, unknown[]>;
+}
+
+/**
+ * Checks a schedule and returns a locked copy of it.
+ *
+ * The table is copied, validateSchedule runs on the copy, and all of it is
+ * frozen (income ladder, children columns, open-ended column, flags and
+ * meta), so the table that was checked is the one every lookup reads.  The
+ * caller's own object is left as it was.  Passing a copy back in returns it
+ * straight away; passing the caller's object again copies and checks it
+ * again, so edits made in between are seen.  Lookups call this for you;
+ * compiling up front means they skip the check.
+ */
+export function compileSchedule(s: Schedule): Schedule {
+  if (compiledSchedules.has(s)) return s;
+  const reserve = s.flags?.selfSupportReserve;
+  const compiled: Schedule = Object.freeze({
+    combinedMonthlyIncome: Object.freeze([...s.combinedMonthlyIncome]) as number[],
+    byChildren: frozenColumns(s.byChildren),
+    ...(s.openEndedColumn != null ? { openEndedColumn: s.openEndedColumn } : {}),
+    ...(s.flags ? { flags: Object.freeze(reserve ? { selfSupportReserve: frozenColumns(reserve) } : {}) } : {}),
+    ...(s.meta ? { meta: Object.freeze({ ...s.meta }) } : {}),
+  });
+  validateSchedule(compiled);
+  compiledSchedules.add(compiled);
+  return compiled;
 }
 
 /**
@@ -49,14 +133,45 @@ export function validateSchedule(s: Schedule): void {
  *
  * In court terms this is the "next higher row" rule: when the family earns an
  * amount that falls between table rows we must jump up to the next available
- * row.  If we run off the top of the table we return -1 so the caller can flag
- * the case as discretionary.
+ * row.  The rows are sorted, so we halve the search range each step instead
+ * of walking every row.  If we run off the top of the table we return -1 so
+ * the caller can flag the case as discretionary.
  */
-function ceilingIndex(sortedAsc: number[], target: number): number {
-  for (let i = 0; i < sortedAsc.length; i++) {
-    if (target <= sortedAsc[i]) return i;
+function ceilingIndex(sortedAsc: readonly number[], target: number): number {
+  let lo = 0;
+  let hi = sortedAsc.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sortedAsc[mid] < target) lo = mid + 1;
+    else hi = mid;
   }
-  return -1; // target is above the top
+  return lo < sortedAsc.length ? lo : -1; // -1: target is above the top
+}
+
+/**
+ * Returns the largest child count that has its own column in the table.
+ */
+function highestChildrenColumn(s: Schedule): number {
+  return Math.max(...Object.keys(s.byChildren).map(Number).filter(Number.isFinite));
+}
+
+/**
+ * Picks which children column applies to a family of the given size.
+ *
+ * Families with a column of their own use it.  Larger families use the top
+ * column, because the printed schedule's last heading reads "or More".  If the
+ * schedule names its open-ended column we use that; otherwise the highest
+ * column plays that role.  A count below every column has no match, so we
+ * stop with an error.
+ */
+export function childrenColumnKey(schedule: Schedule, numChildren: number): string {
+  const exact = String(numChildren);
+  if (schedule.byChildren[exact]) return exact;
+
+  const top = schedule.openEndedColumn ?? String(highestChildrenColumn(schedule));
+  if (schedule.byChildren[top] && numChildren > Number(top)) return top;
+
+  throw new Error(`Schedule has no column for ${numChildren} children.`);
 }
 
 export type LookupStatus = "ok" | "atOrBelowMinimum" | "aboveTop";
@@ -66,23 +181,27 @@ export type LookupResult = {
   amount: number | null;
   usedRowIndex: number | null;
   usedRowIncome: number | null;
+  usedChildrenColumn: string | null;
+  selfSupportReserve: boolean;
 };
 
 /**
  * Looks up the basic child-support obligation for a given income and child
  * count.
  *
- * The function first verifies the table, finds the right row using the "next
- * higher" rule, grabs the amount for the requested number of children, and
- * reports whether the amount came from the minimum row, a normal row, or above
- * the top of the chart.
+ * The function first verifies the table (once per table), finds the right row
+ * using the "next higher" rule, grabs the amount for the requested number of
+ * children (large families share the open-ended top column), and reports
+ * whether the amount came from the minimum row, a normal row, or above the top
+ * of the chart.  It also passes along the asterisk from the printed
+ * table so callers know when the amount was set by the self-support reserve.
  */
 export function lookupBasicObligation(
-  schedule: Schedule,
+  table: Schedule,
   combinedIncome: number,
   numChildren: number
 ): LookupResult {
-  validateSchedule(schedule);
+  const schedule = compileSchedule(table);
 
   const incomes = schedule.combinedMonthlyIncome;
   const idx = ceilingIndex(incomes, combinedIncome);
@@ -92,16 +211,17 @@ export function lookupBasicObligation(
       amount: null,
       usedRowIndex: null,
       usedRowIncome: null,
+      usedChildrenColumn: null,
+      selfSupportReserve: false,
     };
   }
 
-  const childKey = String(numChildren);
+  const childKey = childrenColumnKey(schedule, numChildren);
   const col = schedule.byChildren[childKey];
-  if (!col) {
-    throw new Error(`Schedule has no column for ${numChildren} children.`);
-  }
 
   const amount = col[idx];
+  const selfSupportReserve =
+    schedule.flags?.selfSupportReserve?.[childKey]?.[idx] === true;
   const status: LookupStatus =
     idx === 0 && combinedIncome <= incomes[0] ? "atOrBelowMinimum" : "ok";
 
@@ -110,6 +230,8 @@ export function lookupBasicObligation(
     amount,
     usedRowIndex: idx,
     usedRowIncome: incomes[idx],
+    usedChildrenColumn: childKey,
+    selfSupportReserve,
   };
 }
 
@@ -117,7 +239,7 @@ export function lookupBasicObligation(
  * Convenience export for the built-in sample schedule.  It lets the rest of
  * the program run without asking the user to load their own table first.
  */
-export const demoSchedule: Schedule = scheduleJson as Schedule;
+export const demoSchedule: Schedule = compileSchedule(scheduleJson as Schedule);
 
 // (Explicit re-export to avoid any tooling quirks)
 export { ceilingIndex };
\ No newline at end of file
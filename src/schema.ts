@@ -4,19 +4,62 @@
  * everyday language so a non-programmer can read them as a checklist.
  */
 import { z } from "zod";
+import { normalizeFrequencies, monthlyAmount } from "./frequency";
+import { INCOME_SOURCE_TYPES, itemizeIncome } from "./income";
+import { extraordinaryMedicalFromCosts } from "./medical";
+import { apportionPremium } from "./premium";
+import { computeChildcare } from "./childcare";
+import { countOvernights } from "./parentingtime";
+
+/**
+ * How often an entered amount is paid or received.  The worksheets are
+ * monthly, so every other frequency is converted before we calculate.
+ */
+export const PayFrequency = z.enum(["WEEKLY", "BIWEEKLY", "SEMIMONTHLY", "MONTHLY", "ANNUAL"]);
+export type PayFrequency = z.infer<typeof PayFrequency>;
+
+/**
+ * An amount entered at some other frequency, for example wages of 500 a week.
+ * Any money field below accepts either a plain monthly number or one of these.
+ */
+export const MoneyEntry = z.object({
+  amount: z.number().nonnegative(),
+  frequency: PayFrequency,
+});
+export type MoneyEntry = z.infer<typeof MoneyEntry>;
+
+const Money = z.union([z.number().nonnegative(), MoneyEntry]);
+
+/**
+ * The same shape once every money field has been converted to a monthly
+ * number.  This is what the calculator works with.
+ */
+export type Monthly<T> = { [K in keyof T]: Exclude<T[K], MoneyEntry> };
+
+/**
+ * Record of one converted amount: which field it was, what the user entered,
+ * and the monthly figure we used in its place.
+ */
+export const FrequencyConversion = z.object({
+  field: z.string(),
+  amount: z.number(),
+  frequency: PayFrequency,
+  monthly: z.number(),
+});
+export type FrequencyConversion = z.infer<typeof FrequencyConversion>;
 
 /**
  * Breakdown of a parent's direct payments to third parties.  Each field is the
  * monthly amount that parent pays straight to a provider.
  */
 export const DirectPayAddOns = z.object({
-  childcare: z.number().nonnegative().default(0),
-  healthInsurance: z.number().nonnegative().default(0),
-  extraordinaryMedical: z.number().nonnegative().default(0),
-  cashMedicalIVD: z.number().nonnegative().default(0),
-  additionalExpenses: z.number().nonnegative().default(0),
+  childcare: Money.default(0),
+  healthInsurance: Money.default(0),
+  extraordinaryMedical: Money.default(0),
+  cashMedicalIVD: Money.default(0),
+  additionalExpenses: Money.default(0),
 });
-export type DirectPayAddOns = z.infer<typeof DirectPayAddOns>;
+export type DirectPayAddOns = Monthly<z.infer<typeof DirectPayAddOns>>;
 
 // A fully-zero default that satisfies DirectPayAddOns
 const ZERO_DIRECT_PAY_ADDONS: DirectPayAddOns = {
@@ -35,64 +78,515 @@ export const DirectPay = z.object({
   parent1: DirectPayAddOns.default(ZERO_DIRECT_PAY_ADDONS),
   parent2: DirectPayAddOns.default(ZERO_DIRECT_PAY_ADDONS),
 });
-export type DirectPay = z.infer<typeof DirectPay>;
+export type DirectPay = { parent1: DirectPayAddOns; parent2: DirectPayAddOns };
 
 /**
- * Plain-language choice between Worksheet A (primary custody) and Worksheet B
- * (shared custody).
+ * Plain-language choice between Worksheet A (primary custody), Worksheet B
+ * (shared custody), split custody (each parent has primary custody of at
+ * least one child) and per-child treatment (decided child by child from
+ * each child's overnights).
  */
-export const CustodyType = z.enum(["PRIMARY", "SHARED"]);
+export const CustodyType = z.enum(["PRIMARY", "SHARED", "SPLIT", "PER_CHILD"]);
 export type CustodyType = z.infer<typeof CustodyType>;
 
+/**
+ * A recurring parenting plan, used to count Parent 1's overnights for a year
+ * instead of typing the number in.
+ *
+ * - TWO_TWO_THREE: 2-2-3 rotation over two weeks.  In the first week
+ *   "firstParent" has Monday and Tuesday nights and Friday to Sunday nights,
+ *   the other parent Wednesday and Thursday; the second week is the reverse.
+ * - ALTERNATING_WEEKS: "firstParent" has the first seven nights, the other
+ *   parent the next seven.
+ * - EVERY_OTHER_WEEKEND_MIDWEEK: "firstParent" has Friday and Saturday nights
+ *   of the first week and one midweek night (Wednesday) every week; the other
+ *   parent has the rest.
+ *
+ * "startDate" is the first night of the cycle; for the 2-2-3 and weekend
+ * patterns it must be a Monday.  Overrides replace the rotation for a range
+ * of nights each year ("MM-DD", both ends included), such as a holiday or
+ * summer break; later overrides win over earlier ones, and "years" limits an
+ * override to even or odd years for holidays that alternate.  A range that
+ * wraps over New Year (12-30 to 01-02) belongs to the year it starts in.
+ */
+export const ParentingPattern = z.enum(["TWO_TWO_THREE", "ALTERNATING_WEEKS", "EVERY_OTHER_WEEKEND_MIDWEEK"]);
+export type ParentingPattern = z.infer<typeof ParentingPattern>;
+
+/** Longest each month can be; February 29 counts only in leap years. */
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const MonthDay = z
+  .string()
+  .regex(/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, "Use MM-DD.")
+  .refine((v) => {
+    const [month, day] = v.split("-").map(Number);
+    return day <= DAYS_IN_MONTH[month - 1];
+  }, "That month does not have that many days.");
+
+export const ParentingTimeOverride = z.object({
+  label: z.string().min(1),
+  from: MonthDay,
+  to: MonthDay,
+  parent: z.enum(["P1", "P2"]),
+  years: z.enum(["ALL", "EVEN", "ODD"]).default("ALL"),
+});
+export type ParentingTimeOverride = z.infer<typeof ParentingTimeOverride>;
+
+export const ParentingPlan = z.object({
+  pattern: ParentingPattern,
+  startDate: z.iso.date(),
+  firstParent: z.enum(["P1", "P2"]),
+  year: z.number().int().min(1900).max(2200),
+  overrides: z.array(ParentingTimeOverride).default([]),
+}).superRefine((plan, ctx) => {
+  if (plan.pattern !== "ALTERNATING_WEEKS" && new Date(`${plan.startDate}T00:00:00Z`).getUTCDay() !== 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `startDate must be a Monday for the ${plan.pattern} pattern.`,
+      path: ["startDate"],
+    });
+  }
+});
+export type ParentingPlan = z.infer<typeof ParentingPlan>;
+
+/**
+ * Optional ways to produce an illustrative basic obligation when the combined
+ * income is above the top row of the schedule.  Leave it out to return no
+ * amount and let the court decide from scratch.
+ */
+export const AboveScheduleMethod = z.enum([
+  "CAP_AT_TOP_ROW",
+  "TOP_ROW_PERCENTAGE",
+  "MARGINAL_RATE",
+]);
+export type AboveScheduleMethod = z.infer<typeof AboveScheduleMethod>;
+
+/**
+ * Kinds of income a parent may list, following the sources named in Family
+ * Law § 12-201.  Most count toward actual income; means-tested public
+ * assistance and support received for other children are listed so the
+ * record is complete, but they are left out of the total.  Alimony received
+ * has its own worksheet line (1c) and is not listed here.
+ */
+export const IncomeSourceType = z.enum([
+  "WAGES",
+  "COMMISSIONS_BONUSES",
+  "SELF_EMPLOYMENT",
+  "RENTAL",
+  "SEVERANCE",
+  "CAPITAL_GAINS",
+  "DIVIDENDS_INTEREST",
+  "PENSION_ANNUITY",
+  "TRUST",
+  "SOCIAL_SECURITY",
+  "WORKERS_COMPENSATION",
+  "UNEMPLOYMENT",
+  "DISABILITY_INSURANCE",
+  "GIFTS_PRIZES",
+  "IN_KIND",
+  "OTHER",
+  "MEANS_TESTED_ASSISTANCE",
+  "CHILD_SUPPORT_RECEIVED",
+]);
+export type IncomeSourceType = z.infer<typeof IncomeSourceType>;
+
+/**
+ * One line of a parent's itemized income.  For self-employment and rental
+ * income "amount" is the gross receipts and "expenses" the ordinary and
+ * necessary expenses of earning them; other sources have no expenses.
+ */
+export const IncomeSource = z.object({
+  type: IncomeSourceType,
+  description: z.string().optional(),
+  amount: Money,
+  expenses: Money.default(0),
+});
+export type IncomeSource = Monthly<z.infer<typeof IncomeSource>>;
+
+/**
+ * One itemized source as counted: what was entered, what counts toward actual
+ * income, and whether the type is included at all.
+ */
+export const IncomeLine = z.object({
+  type: IncomeSourceType,
+  label: z.string(),
+  description: z.string().nullable(),
+  gross: z.number(),
+  expenses: z.number(),
+  counted: z.number(),
+  included: z.boolean(),
+});
+export type IncomeLine = z.infer<typeof IncomeLine>;
+
+/**
+ * A parent's full itemization.  "includedTotal" is the actual monthly income
+ * that goes on line 1; "excludedTotal" is what was listed but left out.
+ */
+export const IncomeItemization = z.object({
+  lines: z.array(IncomeLine),
+  includedTotal: z.number(),
+  excludedTotal: z.number(),
+});
+export type IncomeItemization = z.infer<typeof IncomeItemization>;
+
+/**
+ * Evidence a court relied on when it found a parent voluntarily impoverished
+ * and set a potential income for them.
+ */
+export const PotentialIncomeBasis = z.enum([
+  "PRIOR_EARNINGS",
+  "HOURS_TIMES_WAGE",
+  "OCCUPATIONAL_DATA",
+  "OTHER",
+]);
+export type PotentialIncomeBasis = z.infer<typeof PotentialIncomeBasis>;
+
+/**
+ * Potential (imputed) income for one parent.  With the hours-times-wage basis
+ * we work the monthly figure out from weekly hours and an hourly wage; every
+ * other basis takes the amount as found.  "mode" says whether the figure
+ * replaces the parent's actual income or is added to it, and the explanation
+ * is free text for the record (for example the job or survey relied on).
+ */
+export const PotentialIncome = z.object({
+  basis: PotentialIncomeBasis,
+  amount: Money.optional(),
+  hoursPerWeek: z.number().positive().max(168).optional(),
+  hourlyWage: z.number().nonnegative().optional(),
+  mode: z.enum(["REPLACE", "ADD"]).default("REPLACE"),
+  explanation: z.string().optional(),
+}).superRefine((v, ctx) => {
+  if (v.basis === "HOURS_TIMES_WAGE") {
+    for (const key of ["hoursPerWeek", "hourlyWage"] as const) {
+      if (v[key] == null) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${key} is required when the basis is HOURS_TIMES_WAGE.`,
+          path: [key],
+        });
+      }
+    }
+  } else if (v.amount == null) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `amount is required when the basis is ${v.basis}.`,
+      path: ["amount"],
+    });
+  }
+});
+export type PotentialIncome = Monthly<z.infer<typeof PotentialIncome>>;
+
 /**
  * Captures the income-related lines from the worksheets for one parent.  Every
- * amount is monthly to match the court forms.
+ * amount is monthly to match the court forms.  Actual income can be given as
+ * one figure or itemized by source; when itemized, the figure is worked out
+ * from the sources that count.  A potential income found by the court can be
+ * used in place of, or on top of, the actual income.  Social Security
+ * benefits the children receive because of this parent's retirement or
+ * disability count as this parent's income and are credited back against
+ * what they owe.
  */
 export const ParentIncome = z.object({
-  actualMonthly: z.number().nonnegative(),            // line 1
-  preexistingSupportPaid: z.number().nonnegative().default(0), // line 1a
-  alimonyPaid: z.number().nonnegative().default(0),   // line 1b
-  alimonyReceived: z.number().nonnegative().default(0), // line 1c
+  actualMonthly: Money.optional(),                    // line 1
+  incomeSources: z.array(IncomeSource).optional(),    // itemized line 1
+  potentialIncome: PotentialIncome.optional(),        // imputed line 1
+  preexistingSupportPaid: Money.default(0),           // line 1a
+  alimonyPaid: Money.default(0),                      // line 1b
+  alimonyReceived: Money.default(0),                  // line 1c
+  socialSecurityDerivativeBenefits: Money.optional(), // paid to the children on this parent's account
   multifamilyChildrenInHome: z.number().int().min(0).default(0), // count only
+}).superRefine((p, ctx) => {
+  p.incomeSources?.forEach((source, i) => {
+    if (!INCOME_SOURCE_TYPES[source.type].netOfExpenses && monthlyAmount(source.expenses) > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Expenses only apply to self-employment and rental income, not ${source.type}.`,
+        path: ["incomeSources", i, "expenses"],
+      });
+    }
+  });
+  if (p.incomeSources == null) {
+    if (p.actualMonthly == null) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Give actualMonthly or itemize incomeSources.",
+        path: ["actualMonthly"],
+      });
+    }
+    return;
+  }
+  if (p.actualMonthly != null) {
+    const itemized = itemizeIncome(
+      p.incomeSources.map((s) => ({ ...s, amount: monthlyAmount(s.amount), expenses: monthlyAmount(s.expenses) }))
+    ).includedTotal;
+    const entered = monthlyAmount(p.actualMonthly);
+    if (Math.abs(itemized - entered) > 0.005) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `actualMonthly (${entered.toFixed(2)}) does not match the itemized income sources (${itemized.toFixed(2)}); leave it out to use the itemized total.`,
+        path: ["actualMonthly"],
+      });
+    }
+  }
 });
-export type ParentIncome = z.infer<typeof ParentIncome>;
+export type ParentIncome = Omit<
+  Monthly<z.infer<typeof ParentIncome>>,
+  "actualMonthly" | "incomeSources" | "potentialIncome"
+> & {
+  actualMonthly: number;
+  incomeSources?: IncomeSource[];
+  potentialIncome?: PotentialIncome;
+};
+export type ParentIncomeEntry = z.infer<typeof ParentIncome>;
 
 /**
  * Total monthly add-on expenses for the case.  Later we split these by income
- * share; here we simply record the combined amounts.
+ * share; here we simply record the combined amounts.  Instead of a single
+ * extraordinary medical figure, each child's raw uninsured medical costs can
+ * be listed; we then apply the $100-per-child-per-year threshold and use the
+ * qualifying amount.
  */
 export const AddOns = z.object({
-  childcare: z.number().nonnegative().default(0),
-  healthInsurance: z.number().nonnegative().default(0),
-  extraordinaryMedical: z.number().nonnegative().default(0),
-  cashMedicalIVD: z.number().nonnegative().default(0),
-  additionalExpenses: z.number().nonnegative().default(0),
+  childcare: Money.default(0),
+  healthInsurance: Money.default(0),
+  extraordinaryMedical: Money.default(0),
+  uninsuredMedicalByChild: z.array(Money).optional(),
+  cashMedicalIVD: Money.default(0),
+  additionalExpenses: Money.default(0),
+}).superRefine((a, ctx) => {
+  if (!a.uninsuredMedicalByChild) return;
+  const entered = monthlyAmount(a.extraordinaryMedical);
+  const qualifying = extraordinaryMedicalFromCosts(a.uninsuredMedicalByChild.map(monthlyAmount)).qualifying;
+  if (entered > 0 && Math.abs(entered - qualifying) > 0.005) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `extraordinaryMedical (${entered.toFixed(2)}) does not match the qualifying amount from uninsuredMedicalByChild (${qualifying.toFixed(2)}); leave it out to use the computed amount.`,
+      path: ["extraordinaryMedical"],
+    });
+  }
+});
+export type AddOns = Omit<Monthly<z.infer<typeof AddOns>>, "uninsuredMedicalByChild"> & {
+  uninsuredMedicalByChild?: number[];
+};
+export type AddOnsEntry = z.infer<typeof AddOns>;
+
+/**
+ * A health plan premium to apportion.  "peopleCovered" counts everyone on the
+ * plan including the policyholder; "childrenCovered" counts only the children
+ * in this case.  The self-only premium is optional; when it is known the
+ * policyholder's own coverage is taken out first.
+ */
+export const HealthInsurancePremium = z.object({
+  paidBy: z.enum(["P1", "P2"]),
+  familyPremium: Money,
+  selfOnlyPremium: Money.optional(),
+  peopleCovered: z.number().int().min(1),
+  childrenCovered: z.number().int().min(1),
+}).superRefine((p, ctx) => {
+  const dependents = p.selfOnlyPremium != null ? p.peopleCovered - 1 : p.peopleCovered;
+  if (p.childrenCovered > dependents) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `childrenCovered (${p.childrenCovered}) is more than the ${dependents} people the premium is shared among.`,
+      path: ["childrenCovered"],
+    });
+  }
+  if (p.selfOnlyPremium != null && monthlyAmount(p.selfOnlyPremium) > monthlyAmount(p.familyPremium)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "selfOnlyPremium cannot be more than familyPremium.",
+      path: ["selfOnlyPremium"],
+    });
+  }
 });
-export type AddOns = z.infer<typeof AddOns>;
+export type HealthInsurancePremium = Monthly<z.infer<typeof HealthInsurancePremium>>;
+
+/**
+ * Work-related childcare built up from each provider.  "child" is the
+ * 1-based number of the child in this case; a child with two providers gets
+ * two arrangements.  "ceilingPerChild" is the monthly cost per child above
+ * which we warn that the care may not be reasonable, and "taxCreditRate" is
+ * the dependent-care tax credit rate assumed for the paying parent (0.2 for
+ * 20%).  Both are optional.
+ */
+export const ChildcareArrangement = z.object({
+  child: z.number().int().min(1),
+  provider: z.string().min(1),
+  hoursPerWeek: z.number().nonnegative().max(168),
+  hourlyRate: z.number().nonnegative(),
+});
+export type ChildcareArrangement = z.infer<typeof ChildcareArrangement>;
+
+export const Childcare = z.object({
+  paidBy: z.enum(["P1", "P2"]),
+  arrangements: z.array(ChildcareArrangement).min(1),
+  ceilingPerChild: z.number().nonnegative().optional(),
+  taxCreditRate: z.number().min(0).max(0.5).optional(),
+});
+export type Childcare = z.infer<typeof Childcare>;
 
 /**
  * The full set of answers we need from a user to calculate support.
  *
  * It asks for the number of children, the custody style, Parent 1's
  * overnights, both parents' income details, the add-on totals, who is the
- * primary custodian, and any direct payments already being made.
+ * primary custodian, and any direct payments already being made.  The
+ * self-support reserve is optional; when given, it is the monthly amount the
+ * paying parent must keep after support is taken out.  The above-schedule
+ * method is optional too and only matters when income is past the table.
+ * The "as of" date (YYYY-MM-DD) picks which schedule applies; it defaults to
+ * today.
+ *
+ * For SPLIT custody, where each parent has primary custody of at least one
+ * child, "childrenWithParent1" says how many of the children live with
+ * Parent 1; the rest live with Parent 2.  Children 1 to "childrenWithParent1"
+ * are the ones with Parent 1, which is how childcare and medical costs given
+ * per child find their household.  For PER_CHILD custody, "overnightsByChild"
+ * gives Parent 1's overnights with each child, and the calculator decides
+ * shared or primary treatment child by child.
+ *
+ * A parenting plan can be given instead of "overnightsParent1" for PRIMARY
+ * and SHARED custody; the nights it gives Parent 1 in the plan's year become
+ * "overnightsParent1".  Giving both is refused unless they agree, and with
+ * neither Parent 1 has all 365 nights.
+ *
+ * Childcare can be built up from providers, hours and rates instead of
+ * entered as one figure; we then fill in the childcare add-on and the paying
+ * parent's direct payment with the computed cost.
+ *
+ * A family health plan premium can be given instead of the children's share
+ * of health insurance; we then fill in the add-on and the paying parent's
+ * direct payment with the apportioned amount.
+ *
+ * Income, add-on and direct-pay amounts may be entered weekly, bi-weekly,
+ * semi-monthly or annually.  Parsing converts them all to monthly and keeps a
+ * list of what was converted in "frequencyConversions".  That list is output
+ * only: one sent in with the inputs is dropped like any other unknown key.
  */
-export const CaseInputs = z.object({
+const CaseInputsEntry = z.object({
   numChildrenThisCase: z.number().int().min(1),
   custodyType: CustodyType,
-  overnightsParent1: z.number().int().min(0).max(365).default(365),
+  overnightsParent1: z.number().int().min(0).max(365).optional(),
+  overnightsByChild: z.array(z.number().int().min(0).max(365)).optional(),
+  parentingPlan: ParentingPlan.optional(),
   parent1: ParentIncome,
   parent2: ParentIncome,
   addOns: AddOns,
 
   primaryCustodian: z.enum(["P1", "P2"]).default("P1"),
+  childrenWithParent1: z.number().int().min(0).optional(),
   directPay: DirectPay.default({
     parent1: ZERO_DIRECT_PAY_ADDONS,
     parent2: ZERO_DIRECT_PAY_ADDONS,
   }),
+  selfSupportReserve: z.number().nonnegative().optional(),
+  aboveScheduleMethod: AboveScheduleMethod.optional(),
+  asOfDate: z.iso.date().optional(),
+  healthInsurancePremium: HealthInsurancePremium.optional(),
+  childcare: Childcare.optional(),
 }).superRefine((v, ctx) => {
+  const medical = v.addOns.uninsuredMedicalByChild;
+  if (medical && medical.length > v.numChildrenThisCase) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `uninsuredMedicalByChild lists ${medical.length} children but the case has ${v.numChildrenThisCase}.`,
+      path: ["addOns", "uninsuredMedicalByChild"],
+    });
+  }
+  const premium = v.healthInsurancePremium;
+  if (premium) {
+    if (premium.childrenCovered > v.numChildrenThisCase) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `childrenCovered (${premium.childrenCovered}) is more than the ${v.numChildrenThisCase} children in this case.`,
+        path: ["healthInsurancePremium", "childrenCovered"],
+      });
+    }
+    const share = apportionPremium({
+      ...premium,
+      familyPremium: monthlyAmount(premium.familyPremium),
+      selfOnlyPremium: premium.selfOnlyPremium == null ? undefined : monthlyAmount(premium.selfOnlyPremium),
+    }).childrenShare;
+    const payer = premium.paidBy === "P1" ? "parent1" : "parent2";
+    const entered: Array<[number | MoneyEntry, (string | number)[]]> = [
+      [v.addOns.healthInsurance, ["addOns", "healthInsurance"]],
+      [v.directPay[payer].healthInsurance, ["directPay", payer, "healthInsurance"]],
+    ];
+    for (const [value, path] of entered) {
+      const amount = monthlyAmount(value);
+      if (amount > 0 && Math.abs(amount - share) > 0.005) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${path.join(".")} (${amount.toFixed(2)}) does not match the children's share of healthInsurancePremium (${share.toFixed(2)}); leave it out to use the apportioned amount.`,
+          path,
+        });
+      }
+    }
+  }
+  if (v.childcare) {
+    v.childcare.arrangements.forEach((a, i) => {
+      if (a.child > v.numChildrenThisCase) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `child ${a.child} is more than the ${v.numChildrenThisCase} children in this case.`,
+          path: ["childcare", "arrangements", i, "child"],
+        });
+      }
+    });
+    const cost = computeChildcare(v.childcare).net;
+    const payer = v.childcare.paidBy === "P1" ? "parent1" : "parent2";
+    const entered: Array<[number | MoneyEntry, (string | number)[]]> = [
+      [v.addOns.childcare, ["addOns", "childcare"]],
+      [v.directPay[payer].childcare, ["directPay", payer, "childcare"]],
+    ];
+    for (const [value, path] of entered) {
+      const amount = monthlyAmount(value);
+      if (amount > 0 && Math.abs(amount - cost) > 0.005) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${path.join(".")} (${amount.toFixed(2)}) does not match the cost worked out from childcare (${cost.toFixed(2)}); leave it out to use the computed amount.`,
+          path,
+        });
+      }
+    }
+  }
+  if (v.parentingPlan) {
+    if (v.custodyType === "PER_CHILD" || v.custodyType === "SPLIT") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `parentingPlan is not used when custodyType is ${v.custodyType}; give ${v.custodyType === "SPLIT" ? "childrenWithParent1" : "overnightsByChild"} instead.`,
+        path: ["parentingPlan"],
+      });
+    } else {
+      const counted = countOvernights(v.parentingPlan).overnightsParent1;
+      if (v.overnightsParent1 != null && v.overnightsParent1 !== counted) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `overnightsParent1 (${v.overnightsParent1}) does not match the ${counted} nights parentingPlan gives Parent 1; leave it out to use the plan.`,
+          path: ["overnightsParent1"],
+        });
+      }
+    }
+  }
+  if (v.custodyType === "PER_CHILD" && v.overnightsByChild?.length !== v.numChildrenThisCase) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `overnightsByChild must list one count for each of the ${v.numChildrenThisCase} children when custodyType is PER_CHILD.`,
+      path: ["overnightsByChild"],
+    });
+  }
+  if (v.custodyType === "SPLIT") {
+    const withP1 = v.childrenWithParent1;
+    if (withP1 == null || withP1 < 1 || withP1 >= v.numChildrenThisCase) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `childrenWithParent1 must leave at least one child with each parent (between 1 and ${v.numChildrenThisCase - 1}) when custodyType is SPLIT.`,
+        path: ["childrenWithParent1"],
+      });
+    }
+  }
   if (v.custodyType === "SHARED") {
-    if (v.overnightsParent1 < 0 || v.overnightsParent1 > 365) {
+    if (v.overnightsParent1 != null && (v.overnightsParent1 < 0 || v.overnightsParent1 > 365)) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
         message: "overnightsParent1 must be between 0 and 365 when custodyType is SHARED.",
@@ -101,18 +595,57 @@ export const CaseInputs = z.object({
     }
   }
 });
-export type CaseInputs = z.infer<typeof CaseInputs>;
+export type CaseInputsEntry = z.infer<typeof CaseInputsEntry>;
+
+export const CaseInputs = CaseInputsEntry.transform(normalizeFrequencies);
+export type CaseInputs = Omit<
+  CaseInputsEntry,
+  "overnightsParent1" | "parent1" | "parent2" | "addOns" | "directPay" | "healthInsurancePremium"
+> & {
+  overnightsParent1: number;
+  parent1: ParentIncome;
+  parent2: ParentIncome;
+  addOns: AddOns;
+  directPay: DirectPay;
+  healthInsurancePremium?: HealthInsurancePremium;
+  frequencyConversions?: FrequencyConversion[];
+};
+
+/**
+ * Which worksheet produced the result.  SPLIT custody nets one Worksheet A
+ * per household and PER_CHILD combines one worksheet per group of children.
+ */
+export const WorksheetPath = z.enum(["WorksheetA", "WorksheetB", "SplitWorksheetA", "PerChildWorksheets"]);
+export type WorksheetPath = z.infer<typeof WorksheetPath>;
+
+/**
+ * The one condition, if any, that a court should look at before relying on
+ * the amount: income above the schedule, a shared case sent back to
+ * Worksheet A, or an order reduced by the self-support reserve.
+ */
+export const Advisory = z.enum(["aboveTopOfSchedule", "redirectedToWorksheetA", "selfSupportReserve"]);
+export type Advisory = z.infer<typeof Advisory>;
 
 /**
  * Simplified output returned to the caller after we run the calculator.  It
- * includes who pays, how much, the worksheet line items for transparency, and
- * any advisory notes that a court might want to review.
- */
-export type CaseOutputs = {
-  recommendedOrderParent1PaysParent2: number;
-  payor: "P1" | "P2" | null;
-  worksheet: Record<string, number>;
-  path: "WorksheetA" | "WorksheetB";
-  notes: string[];
-  advisory: "aboveTopOfSchedule" | "redirectedToWorksheetA" | null;
-};
\ No newline at end of file
+ * includes who pays, how much, the worksheet line items for transparency, any
+ * advisory notes that a court might want to review, the label of the
+ * schedule that produced the numbers, any amounts that were converted to
+ * monthly (as entered and as used), and each parent's itemized income when
+ * it was given by source.
+ */
+export const CaseOutputs = z.object({
+  recommendedOrderParent1PaysParent2: z.number(),
+  payor: z.enum(["P1", "P2"]).nullable(),
+  worksheet: z.record(z.string(), z.number()),
+  path: WorksheetPath,
+  notes: z.array(z.string()),
+  advisory: Advisory.nullable(),
+  scheduleVersion: z.string().nullable(),
+  frequencyConversions: z.array(FrequencyConversion),
+  incomeItemization: z.object({
+    parent1: IncomeItemization.nullable(),
+    parent2: IncomeItemization.nullable(),
+  }),
+});
+export type CaseOutputs = z.infer<typeof CaseOutputs>;
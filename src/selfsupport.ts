@@ -0,0 +1,104 @@
+/**
+ * Self-support reserve helpers.  The schedule already shades the lowest rows
+ * for combined income, but a paying parent with a small income can still be
+ * left with too little to live on once their own share is taken out.  These
+ * helpers run that second, per-parent check.  The check only runs when the
+ * case supplies a monthly reserve amount ("selfSupportReserve").
+ */
+
+/**
+ * What the reserve check found for one parent.  The numbers line up with the
+ * extra worksheet lines we show: the reserve itself, what the parent would
+ * have left after paying the full amount, and how much we trimmed.
+ */
+export type SelfSupportCheck = {
+  parent: "P1" | "P2";
+  reserve: number;
+  aai: number;
+  obligationBefore: number;
+  remainingIncome: number;
+  reduction: number;
+  obligationAfter: number;
+};
+
+/**
+ * Tests one parent's obligation against the self-support reserve.
+ *
+ * Steps:
+ * 1.  Subtract the obligation from that parent's Adjusted Actual Income.
+ * 2.  If what is left falls below the reserve, cut the obligation by the
+ *     shortfall.
+ * 3.  Never cut below zero, so a parent whose income is already under the
+ *     reserve ends up owing nothing from this line.
+ */
+export function selfSupportReserveCheck(
+  parent: "P1" | "P2",
+  aai: number,
+  obligation: number,
+  reserve: number
+): SelfSupportCheck {
+  const remainingIncome = aai - obligation;
+  const shortfall = Math.max(0, reserve - remainingIncome);
+  const reduction = Math.min(obligation, shortfall);
+  return {
+    parent,
+    reserve,
+    aai,
+    obligationBefore: obligation,
+    remainingIncome,
+    reduction,
+    obligationAfter: obligation - reduction,
+  };
+}
+
+/**
+ * Runs the check for each parent, Parent 1 first, on what that parent pays
+ * under the order: "owed" for the paying parent and nothing for the other.
+ * Only the paying parent's amount can be cut, but both parents' lines show
+ * what their own income leaves them next to the reserve.
+ */
+export function selfSupportReserveChecks(
+  aai: { P1: number; P2: number },
+  payor: "P1" | "P2" | null,
+  owed: number,
+  reserve: number
+): SelfSupportCheck[] {
+  return (["P1", "P2"] as const).map((parent) =>
+    selfSupportReserveCheck(parent, aai[parent], parent === payor ? owed : 0, reserve)
+  );
+}
+
+/**
+ * How much the checks took off the order, which is the paying parent's
+ * reduction since nobody else pays anything.
+ */
+export function selfSupportReduction(checks: SelfSupportCheck[]): number {
+  return checks.reduce((sum, c) => sum + c.reduction, 0);
+}
+
+/**
+ * Lays the checks out as worksheet lines after "prefix" ("line8a_" on
+ * Worksheet A, "line16a_" on Worksheet B): the reserve once, then each
+ * parent's income after support and reduction.  Returns no lines when the
+ * case gave no reserve.
+ */
+export function selfSupportLines(prefix: string, checks: SelfSupportCheck[]): Record<string, number> {
+  if (checks.length === 0) return {};
+  const lines: Record<string, number> = { [`${prefix}selfSupportReserve`]: checks[0].reserve };
+  for (const c of checks) {
+    const who = c.parent === "P1" ? "p1" : "p2";
+    lines[`${prefix}${who}IncomeAfterSupport`] = c.remainingIncome;
+    lines[`${prefix}${who}ReserveReduction`] = c.reduction;
+  }
+  return lines;
+}
+
+/**
+ * Turns a check that actually reduced the order into a sentence for the notes
+ * list.  Returns nothing when every parent already kept the full reserve.
+ */
+export function selfSupportReserveNote(checks: SelfSupportCheck[]): string | null {
+  const check = checks.find((c) => c.reduction > 1e-6);
+  if (!check) return null;
+  return `Self-support reserve of ${check.reserve.toFixed(2)} applied: ${check.parent}'s obligation reduced by ${check.reduction.toFixed(2)}.`;
+}
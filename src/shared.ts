@@ -5,6 +5,7 @@
  */
 import * as S from "./schema";
 import * as Schedule from "./schedule";
+import type { Extrapolation } from "./extrapolation";
 
 /**
  * Multiplies the "basic" obligation by 1.5, matching the shared-custody rule
@@ -47,8 +48,9 @@ export function meetsSharedThreshold(overnightsP1: number): boolean {
  *
  * - Reuses the "basic" computation so we have incomes, shares, and the base
  *   support number.
- * - If the schedule tops out above the family's income, we mark the case as
- *   discretionary so a human can decide.
+ * - If the family's income is above the top of the schedule, we mark the
+ *   case as discretionary so a human can decide.  Unless an above-schedule
+ *   method produced an illustrative amount, we stop there.
  * - If the shared threshold fails, we ask the caller to fall back to Worksheet
  *   A.
  * - Otherwise we return the adjusted basic amount and the overnight
@@ -60,6 +62,8 @@ export function sharedStarter(
   computeBasic: (i: S.CaseInputs, s: Schedule.Schedule) => {
     basicStatus: "ok" | "atOrBelowMinimum" | "aboveTop";
     basic: number | null;
+    basicSelfSupportReserve: boolean;
+    extrapolation: Extrapolation | null;
     usedRowIncome: number | null;
     p1AAI: number;
     p2AAI: number;
@@ -75,13 +79,15 @@ export function sharedStarter(
 
   const base = computeBasic(inputs, schedule);
 
-  // If above top, we can’t produce a mandatory amount yet (same as A)
-  if (base.basicStatus === "aboveTop" || base.basic == null) {
+  // If above top with no method, we can’t produce an amount yet (same as A)
+  if (base.basic == null) {
     return {
       advisory: "aboveTopOfSchedule" as const,
       redirectToWorksheetA: false,
       basic: null,
       adjustedBasic: null,
+      selfSupportReserve: false,
+      extrapolation: null,
       usedRowIncome: base.usedRowIncome,
       p1AAI: base.p1AAI, p2AAI: base.p2AAI,
       combinedAAI: base.combinedAAI, p1Share: base.p1Share, p2Share: base.p2Share,
@@ -91,16 +97,20 @@ export function sharedStarter(
     };
   }
 
+  const advisory = base.basicStatus === "aboveTop" ? ("aboveTopOfSchedule" as const) : null;
+
   // Check threshold
   const isShared = meetsSharedThreshold(inputs.overnightsParent1);
   if (!isShared) {
     // Less than 92 nights for either parent triggers a redirect to Worksheet A.
     // Caller should switch to Worksheet A path
     return {
-      advisory: null,
+      advisory,
       redirectToWorksheetA: true as const,
       basic: base.basic,
       adjustedBasic: null,
+      selfSupportReserve: base.basicSelfSupportReserve,
+      extrapolation: base.extrapolation,
       usedRowIncome: base.usedRowIncome,
       p1AAI: base.p1AAI, p2AAI: base.p2AAI,
       combinedAAI: base.combinedAAI, p1Share: base.p1Share, p2Share: base.p2Share,
@@ -115,10 +125,12 @@ export function sharedStarter(
 
   // Return the building blocks Worksheet B needs for the later steps.
   return {
-    advisory: null,
+    advisory,
     redirectToWorksheetA: false,
     basic: base.basic,
     adjustedBasic: adjBasic,
+    selfSupportReserve: base.basicSelfSupportReserve,
+    extrapolation: base.extrapolation,
     usedRowIncome: base.usedRowIncome,
     p1AAI: base.p1AAI, p2AAI: base.p2AAI,
     combinedAAI: base.combinedAAI, p1Share: base.p1Share, p2Share: base.p2Share,
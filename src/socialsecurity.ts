@@ -0,0 +1,48 @@
+/**
+ * Social Security derivative benefit helpers.  When the children receive
+ * dependent benefits because of a parent's retirement or disability, Maryland
+ * counts those benefits as that parent's income and then credits them against
+ * that parent's share of support.  The income side happens in
+ * adjustedActualIncome; these helpers handle the credit.
+ */
+
+/**
+ * What the credit did for one parent: the monthly benefits, the amount owed
+ * before the credit, how much of the credit was used, and what is left.
+ */
+export type DerivativeBenefitsCredit = {
+  parent: "P1" | "P2";
+  benefits: number;
+  obligationBefore: number;
+  credit: number;
+  obligationAfter: number;
+};
+
+/**
+ * Credits one parent's derivative benefits against their amount (Worksheet A
+ * line 8 or Worksheet B line 15).  The credit can bring the amount down to
+ * zero but never below it; benefits above the amount owed are not paid back
+ * to the parent.  Returns nothing when the parent has no such benefits.
+ */
+export function applyDerivativeBenefitsCredit(
+  parent: "P1" | "P2",
+  benefits: number | undefined,
+  obligation: number
+): DerivativeBenefitsCredit | null {
+  if (!benefits || benefits <= 0) return null;
+  const credit = Math.min(benefits, Math.max(0, obligation));
+  return {
+    parent,
+    benefits,
+    obligationBefore: obligation,
+    credit,
+    obligationAfter: obligation - credit,
+  };
+}
+
+/**
+ * Sentence for the notes list describing the benefits and the credit given.
+ */
+export function derivativeBenefitsNote(c: DerivativeBenefitsCredit): string {
+  return `Social Security derivative benefits of ${c.benefits.toFixed(2)} paid for the children on ${c.parent}'s account were added to ${c.parent}'s income and credited against ${c.parent}'s obligation (credit applied: ${c.credit.toFixed(2)}).`;
+}
@@ -0,0 +1,184 @@
+/**
+ * Split-custody helpers.  In a split custody case each parent has primary
+ * custody of at least one of the children.  The usual approach is to run
+ * Worksheet A once per household, each time for the children living there,
+ * and then net the two amounts so only one parent pays.  These helpers build
+ * the two household cases and do the netting.
+ */
+import type { AddOns, CaseInputs, DirectPayAddOns } from "./schema";
+import { ADD_ON_CATEGORIES } from "./addons";
+import { computeChildcare } from "./childcare";
+import { extraordinaryMedicalFromCosts } from "./medical";
+
+/**
+ * One household's Worksheet A case: the parent the children live with, how
+ * many children that is, and the inputs to run.
+ */
+export type SplitHousehold = {
+  custodian: "P1" | "P2";
+  children: number;
+  inputs: CaseInputs;
+};
+
+/**
+ * The two household amounts and what is left after netting them.  "payor"
+ * is null when the two amounts cancel out.
+ */
+export type SplitNetting = {
+  p1Owes: number;
+  p2Owes: number;
+  payor: "P1" | "P2" | null;
+  amount: number;
+};
+
+/**
+ * An add-on category the inputs break down child by child.  "byChild" holds
+ * each child's monthly amount, child 1 first, with every child in the case
+ * listed.
+ */
+export type ChildSpecificAddOn = {
+  category: keyof DirectPayAddOns;
+  label: string;
+  byChild: number[];
+};
+
+/**
+ * Finds the add-ons that belong to particular children: childcare built up
+ * from providers (each arrangement names its child) and uninsured medical
+ * costs listed per child (counted after the $100 threshold).  A category only
+ * counts when it has some cost to place.
+ */
+export function childSpecificAddOns(inputs: CaseInputs): ChildSpecificAddOn[] {
+  const children = Array.from({ length: inputs.numChildrenThisCase }, (_, i) => i + 1);
+  const found: ChildSpecificAddOn[] = [];
+  if (inputs.childcare) {
+    const { perChild } = computeChildcare(inputs.childcare);
+    const byChild = children.map((c) => perChild.find((p) => p.child === c)?.monthly ?? 0);
+    found.push({ category: "childcare", label: "childcare", byChild });
+  }
+  const medical = inputs.addOns.uninsuredMedicalByChild;
+  if (medical) {
+    const { perChild } = extraordinaryMedicalFromCosts(medical);
+    const byChild = children.map((c) => perChild[c - 1]?.qualifying ?? 0);
+    found.push({ category: "extraordinaryMedical", label: "extraordinary medical", byChild });
+  }
+  return found.filter((a) => a.byChild.some((amount) => amount > 0));
+}
+
+/**
+ * The fraction of each add-on category that goes with some of the children.
+ * Categories given child by child follow those children's own costs; the rest
+ * are shared by number of children.
+ */
+function categoryFractions(inputs: CaseInputs, children: number[]): Record<keyof DirectPayAddOns, number> {
+  const byHeadcount = children.length / inputs.numChildrenThisCase;
+  const fractions = Object.fromEntries(
+    ADD_ON_CATEGORIES.map(({ category }) => [category, byHeadcount])
+  ) as Record<keyof DirectPayAddOns, number>;
+  for (const { category, byChild } of childSpecificAddOns(inputs)) {
+    const total = byChild.reduce((sum, amount) => sum + amount, 0);
+    fractions[category] = children.reduce((sum, c) => sum + byChild[c - 1], 0) / total;
+  }
+  return fractions;
+}
+
+function scaleDirectPay(
+  group: DirectPayAddOns,
+  fractions: Record<keyof DirectPayAddOns, number>
+): DirectPayAddOns {
+  const scaled = { ...group };
+  for (const { category } of ADD_ON_CATEGORIES) scaled[category] = (group[category] ?? 0) * fractions[category];
+  return scaled;
+}
+
+function scaleAddOns(addOns: AddOns, fractions: Record<keyof DirectPayAddOns, number>): AddOns {
+  const { uninsuredMedicalByChild: _perChild, ...amounts } = addOns;
+  return { ...amounts, ...scaleDirectPay(amounts, fractions) };
+}
+
+/**
+ * Cuts a case down to some of its children, given by their 1-based numbers:
+ * the same parents and incomes, that many children, and their part of the
+ * add-ons and direct payments.  Childcare and medical costs given child by
+ * child go with those children, along with the direct payments for them; the
+ * other add-ons are shared in proportion to the number of children.  The
+ * self-support reserve is left out, because it applies once to whatever the
+ * pieces add up to.
+ */
+export function portionForChildren(inputs: CaseInputs, children: number[]): CaseInputs {
+  const fractions = categoryFractions(inputs, children);
+  const arrangements = inputs.childcare?.arrangements.filter((a) => children.includes(a.child)) ?? [];
+  return {
+    ...inputs,
+    numChildrenThisCase: children.length,
+    selfSupportReserve: undefined,
+    childcare: inputs.childcare && arrangements.length > 0 ? { ...inputs.childcare, arrangements } : undefined,
+    addOns: scaleAddOns(inputs.addOns, fractions),
+    directPay: {
+      parent1: scaleDirectPay(inputs.directPay.parent1, fractions),
+      parent2: scaleDirectPay(inputs.directPay.parent2, fractions),
+    },
+  };
+}
+
+/**
+ * Builds the two household cases.
+ *
+ * Steps:
+ * 1.  The children living with Parent 1 (children 1 to childrenWithParent1)
+ *     form one Worksheet A case with Parent 1 as primary custodian; the rest
+ *     form a second case with Parent 2 as primary custodian.
+ * 2.  Both cases keep the parents' full incomes, since each parent supports
+ *     every child.
+ * 3.  Add-ons and direct payments are entered for the whole family, so each
+ *     household takes its share in proportion to the children living there,
+ *     except that costs given for a particular child go with that child.
+ * 4.  The self-support reserve is left out here; it applies once, to the
+ *     netted amount.
+ */
+export function splitHouseholds(inputs: CaseInputs): [SplitHousehold, SplitHousehold] {
+  const withP1 = inputs.childrenWithParent1 ?? 0;
+  const total = inputs.numChildrenThisCase;
+  const numbers = Array.from({ length: total }, (_, i) => i + 1);
+  const household = (custodian: "P1" | "P2", children: number[]): SplitHousehold => ({
+    custodian,
+    children: children.length,
+    inputs: { ...portionForChildren(inputs, children), custodyType: "PRIMARY", primaryCustodian: custodian },
+  });
+  return [household("P1", numbers.slice(0, withP1)), household("P2", numbers.slice(withP1))];
+}
+
+/**
+ * Nets what each parent owes for the children living with the other.  The
+ * smaller amount comes off the larger, and the parent with the larger amount
+ * pays the difference.
+ */
+export function netSplitObligations(p1Owes: number, p2Owes: number): SplitNetting {
+  const diff = p1Owes - p2Owes;
+  if (Math.abs(diff) <= 1e-6) return { p1Owes, p2Owes, payor: null, amount: 0 };
+  return { p1Owes, p2Owes, payor: diff > 0 ? "P1" : "P2", amount: Math.abs(diff) };
+}
+
+/**
+ * How the add-ons were divided, for the end of a notes sentence: by number of
+ * children, and by child for any category given child by child.
+ */
+export function addOnSharingPhrase(byChild: ChildSpecificAddOn[]): string {
+  if (byChild.length === 0) return "by number of children";
+  return `by number of children, except ${byChild.map((a) => a.label).join(" and ")}, which went with the child it was given for`;
+}
+
+/**
+ * Sentence for the notes list explaining the netting.  "byChild" lists the
+ * add-ons that were placed child by child.
+ */
+export function splitNote(
+  n: SplitNetting,
+  childrenWithP1: number,
+  childrenWithP2: number,
+  byChild: ChildSpecificAddOn[] = []
+): string {
+  const plural = (k: number) => (k === 1 ? "child" : "children");
+  const result = n.payor ? `${n.payor} pays the difference of ${n.amount.toFixed(2)}` : "the amounts cancel out";
+  return `Split custody: P2 owes ${n.p2Owes.toFixed(2)} for the ${childrenWithP1} ${plural(childrenWithP1)} living with P1 and P1 owes ${n.p1Owes.toFixed(2)} for the ${childrenWithP2} ${plural(childrenWithP2)} living with P2; ${result}. Add-ons and direct payments were shared between the households ${addOnSharingPhrase(byChild)}.`;
+}
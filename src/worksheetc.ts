@@ -0,0 +1,126 @@
+/**
+ * Worksheet C helpers.  Worksheet C is the short form attached to Worksheet B
+ * for cases where the parents pay the add-on expenses (lines 13a–13e) in a
+ * different split than their income shares, for example one parent pays all
+ * of the day care.  It works out who has overpaid and feeds the difference
+ * into Worksheet B line 14.
+ */
+import type { AddOnAllocation } from "./addons";
+import type { DirectPayAddOns } from "./schema";
+
+/**
+ * The five expense categories in form order, with the pair of Worksheet C
+ * lines each one uses: the proportionate-share line and the excess line.
+ */
+export const WORKSHEET_C_CATEGORIES: Array<{
+  category: keyof DirectPayAddOns;
+  worksheetBLine: string;
+  shareLine: string;
+  excessLine: string;
+}> = [
+  { category: "childcare", worksheetBLine: "13a", shareLine: "a", excessLine: "b" },
+  { category: "healthInsurance", worksheetBLine: "13b", shareLine: "c", excessLine: "d" },
+  { category: "extraordinaryMedical", worksheetBLine: "13c", shareLine: "e", excessLine: "f" },
+  { category: "cashMedicalIVD", worksheetBLine: "13d", shareLine: "g", excessLine: "h" },
+  { category: "additionalExpenses", worksheetBLine: "13e", shareLine: "i", excessLine: "j" },
+];
+
+/**
+ * One category's pair of lines: what each parent should have paid given
+ * their income share, and how much more than that each actually paid.
+ * "total" is the amount on the category's Worksheet B line.
+ */
+export type WorksheetCCategory = {
+  category: keyof DirectPayAddOns;
+  total: number;
+  p1ProportionateShare: number;
+  p2ProportionateShare: number;
+  p1Excess: number;
+  p2Excess: number;
+};
+
+/**
+ * Full Worksheet C result.  "owedBy" is the parent whose column receives the
+ * line l amount, which is the parent who overpaid less; that amount moves to
+ * their column on Worksheet B line 14.
+ */
+export type WorksheetCResult = {
+  applies: boolean;
+  categories: WorksheetCCategory[];
+  p1TotalExcess: number;
+  p2TotalExcess: number;
+  netAdjustment: number;
+  owedBy: "P1" | "P2" | null;
+};
+
+/**
+ * Runs Worksheet C from the Worksheet B lines 13a–13e, so each category
+ * reaches line 16 through line 14.
+ *
+ * Steps for each expense category:
+ * 1.  Take each parent's income share of the category's line 13 amount
+ *     (lines a, c, e, g, i).
+ * 2.  Whoever paid directly more than their share records the excess (lines
+ *     b, d, f, h, j).  Only the payments credited against the expense count,
+ *     as on Worksheet A line 7, so paying more than the expense itself never
+ *     adds to the excess.
+ * Then:
+ * 3.  Add each parent's excess amounts together (line k).
+ * 4.  Subtract the smaller total from the larger (line l).  The parent with
+ *     the smaller total owes that amount to the other.
+ *
+ * The worksheet only applies when some category was paid in a different
+ * split than the income shares; otherwise every excess is zero.
+ */
+export function computeWorksheetC(addOns: AddOnAllocation[]): WorksheetCResult {
+  const categories = WORKSHEET_C_CATEGORIES.map(({ category }): WorksheetCCategory => {
+    const line = addOns.find((a) => a.category === category);
+    const p1ProportionateShare = line?.p1Share ?? 0;
+    const p2ProportionateShare = line?.p2Share ?? 0;
+    return {
+      category,
+      total: line?.total ?? 0,
+      p1ProportionateShare,
+      p2ProportionateShare,
+      p1Excess: Math.max(0, (line?.p1DirectPayCredited ?? 0) - p1ProportionateShare),
+      p2Excess: Math.max(0, (line?.p2DirectPayCredited ?? 0) - p2ProportionateShare),
+    };
+  });
+
+  const p1TotalExcess = categories.reduce((sum, c) => sum + c.p1Excess, 0);
+  const p2TotalExcess = categories.reduce((sum, c) => sum + c.p2Excess, 0);
+  const netAdjustment = Math.abs(p1TotalExcess - p2TotalExcess);
+  const owedBy =
+    netAdjustment <= 1e-6 ? null : p1TotalExcess < p2TotalExcess ? "P1" : "P2";
+
+  return {
+    applies: p1TotalExcess + p2TotalExcess > 1e-6,
+    categories,
+    p1TotalExcess,
+    p2TotalExcess,
+    netAdjustment: owedBy ? netAdjustment : 0,
+    owedBy,
+  };
+}
+
+/**
+ * Lays Worksheet C out as worksheet lines ("worksheetC_a_p1Share",
+ * "worksheetC_b_p1Excess", … "worksheetC_l_p2Net") so it prints beside
+ * Worksheet B.  Returns no lines when the worksheet does not apply.
+ */
+export function worksheetCLines(c: WorksheetCResult): Record<string, number> {
+  if (!c.applies) return {};
+  const lines: Record<string, number> = {};
+  c.categories.forEach((cat, i) => {
+    const { shareLine, excessLine } = WORKSHEET_C_CATEGORIES[i];
+    lines[`worksheetC_${shareLine}_p1Share`] = cat.p1ProportionateShare;
+    lines[`worksheetC_${shareLine}_p2Share`] = cat.p2ProportionateShare;
+    lines[`worksheetC_${excessLine}_p1Excess`] = cat.p1Excess;
+    lines[`worksheetC_${excessLine}_p2Excess`] = cat.p2Excess;
+  });
+  lines.worksheetC_k_p1TotalExcess = c.p1TotalExcess;
+  lines.worksheetC_k_p2TotalExcess = c.p2TotalExcess;
+  lines.worksheetC_l_p1Net = c.owedBy === "P1" ? c.netAdjustment : 0;
+  lines.worksheetC_l_p2Net = c.owedBy === "P2" ? c.netAdjustment : 0;
+  return lines;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+import { handleCalculateRequest, type ApiError } from "../src/api";
+import { defaultScheduleRegistry } from "../src/registry";
+import { demoSchedule } from "../src/schedule";
+import type { CaseOutputs } from "../src/schema";
+
+const sample = {
+  numChildrenThisCase: 1,
+  custodyType: "PRIMARY",
+  parent1: { actualMonthly: 3000 },
+  parent2: { actualMonthly: 2000 },
+  addOns: {},
+};
+
+describe("handleCalculateRequest", () => {
+  it("returns the case outputs for a valid case", () => {
+    const response = handleCalculateRequest(JSON.stringify(sample), demoSchedule);
+    expect(response.status).toBe(200);
+    const body = response.body as CaseOutputs;
+    expect(body.path).toBe("WorksheetA");
+    expect(body.payor).toBe("P2");
+  });
+
+  it("rejects text that is not a JSON object with 400", () => {
+    expect(handleCalculateRequest("{oops", demoSchedule).status).toBe(400);
+    const response = handleCalculateRequest("[1, 2]", demoSchedule);
+    expect(response.status).toBe(400);
+    expect((response.body as ApiError).error.code).toBe("invalid_body");
+  });
+
+  it("lists every validation problem with its path and 422", () => {
+    const response = handleCalculateRequest(
+      JSON.stringify({ ...sample, numChildrenThisCase: 0, parent1: {} }),
+      demoSchedule
+    );
+    expect(response.status).toBe(422);
+    const { error } = response.body as ApiError;
+    expect(error.code).toBe("validation_failed");
+    expect(error.issues?.map((i) => i.path)).toEqual([["numChildrenThisCase"], ["parent1", "actualMonthly"]]);
+  });
+
+  it("points at asOfDate with 422 when no schedule is in force on it", () => {
+    const response = handleCalculateRequest(
+      JSON.stringify({ ...sample, asOfDate: "2020-01-01" }),
+      defaultScheduleRegistry
+    );
+    expect(response.status).toBe(422);
+    const { error } = response.body as ApiError;
+    expect(error.code).toBe("validation_failed");
+    expect(error.issues).toEqual([
+      { path: ["asOfDate"], message: expect.stringMatching(/^No schedule in effect on 2020-01-01/), code: "custom" },
+    ]);
+  });
+
+  it("reports a calculator failure as 500 without its details", () => {
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    const broken = { ...demoSchedule, combinedMonthlyIncome: [] };
+    const response = handleCalculateRequest(JSON.stringify(sample), broken);
+    expect(response.status).toBe(500);
+    const { error } = response.body as ApiError;
+    expect(error.code).toBe("calculation_failed");
+    expect(error.message).toBe("The calculator could not complete this case.");
+    expect(log).toHaveBeenCalled();
+    log.mockRestore();
+  });
+});
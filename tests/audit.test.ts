@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { auditSchedule } from "../src/audit";
+import { demoSchedule, type Schedule } from "../src/schedule";
+
+describe("auditSchedule", () => {
+  it("finds nothing wrong with the built-in schedule", () => {
+    expect(auditSchedule(demoSchedule)).toEqual([]);
+  });
+
+  it("flags decreasing amounts, inverted columns, and outlier jumps", () => {
+    const schedule: Schedule = {
+      combinedMonthlyIncome: [1000, 1100, 1200, 1300, 1400, 1500],
+      byChildren: {
+        "1": [100, 105, 110, 108, 113, 118],
+        "2": [150, 155, 160, 100, 170, 175],
+        "3": [200, 205, 210, 215, 300, 305],
+      },
+    };
+    const findings = auditSchedule(schedule);
+    expect(findings.map((f) => [f.check, f.column, f.income])).toEqual([
+      ["rowDecrease", "1", 1300],
+      ["rowDecrease", "2", 1300],
+      ["outlierJump", "2", 1400],
+      ["outlierJump", "3", 1400],
+      ["columnDecrease", "2", 1300],
+    ]);
+    expect(findings.find((f) => f.check === "outlierJump")?.severity).toBe("warning");
+  });
+
+  it("reports a malformed table as a finding instead of throwing", () => {
+    const findings = auditSchedule({
+      combinedMonthlyIncome: [1000, 900],
+      byChildren: { "1": [1, 2] },
+    });
+    expect(findings).toHaveLength(1);
+    expect(findings[0].check).toBe("structure");
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  BatchReport,
+  batchFormatFor,
+  formatBatchSummary,
+  handleBatchRequest,
+  parseCsvRecords,
+  parseJsonlRecords,
+  runBatch,
+  setDottedField,
+} from "../src/batch";
+import { demoSchedule } from "../src/schedule";
+
+const good = {
+  caseId: "C-1",
+  numChildrenThisCase: 1,
+  custodyType: "PRIMARY",
+  parent1: { actualMonthly: 3000 },
+  parent2: { actualMonthly: 2000 },
+  addOns: {},
+};
+
+describe("parseCsvRecords", () => {
+  it("builds nested cases from dotted headings and leaves blank cells out", () => {
+    const csv = [
+      "caseId,numChildrenThisCase,custodyType,parent1.actualMonthly.amount,parent1.actualMonthly.frequency,parent2.actualMonthly,overnightsByChild.0,addOns.childcare",
+      "007,1,PRIMARY,1500,BIWEEKLY,2000,,",
+      "",
+      "008,1,PRIMARY,3000",
+    ].join("\n");
+    const [first, second] = parseCsvRecords(csv);
+    expect(first).toMatchObject({ record: 1, line: 2, caseId: "007", parseError: null });
+    expect(first.value).toEqual({
+      caseId: "007",
+      numChildrenThisCase: 1,
+      custodyType: "PRIMARY",
+      parent1: { actualMonthly: { amount: 1500, frequency: "BIWEEKLY" } },
+      parent2: { actualMonthly: 2000 },
+      addOns: {},
+    });
+    expect(second).toMatchObject({ record: 2, line: 4, parseError: "Row has 4 cells; header has 8." });
+  });
+
+  it("fills arrays from numbered segments", () => {
+    const [record] = parseCsvRecords("overnightsByChild.0,overnightsByChild.1\n365,150");
+    expect((record.value as { overnightsByChild: number[] }).overnightsByChild).toEqual([365, 150]);
+  });
+
+  it("reads each cell as the type its field takes", () => {
+    const [record] = parseCsvRecords(
+      "parent1.incomeSources.0.type,parent1.incomeSources.0.amount,parent1.incomeSources.0.description\nWAGES,1500,2024"
+    );
+    expect(record.value).toMatchObject({
+      parent1: { incomeSources: [{ type: "WAGES", amount: 1500, description: "2024" }] },
+    });
+  });
+
+  it("refuses headings that name no field", () => {
+    const records = parseCsvRecords("numChildrenThisCase,__proto__.polluted,parent1.actualMonthy\n1,yes,3000\n2,no,4000");
+    expect(records.map((r) => r.parseError)).toEqual([
+      'Columns "__proto__.polluted", "parent1.actualMonthy" are not CaseInputs fields.',
+      'Columns "__proto__.polluted", "parent1.actualMonthy" are not CaseInputs fields.',
+    ]);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe("setDottedField", () => {
+  it("never writes through to a prototype", () => {
+    for (const path of ["__proto__.polluted", "constructor.prototype.polluted", "parent1.__proto__.polluted"]) {
+      expect(() => setDottedField({}, path, "yes")).toThrow(`"${path}" is not a CaseInputs field.`);
+    }
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it("keeps a plain amount when its frequency is set", () => {
+    const target: Record<string, unknown> = { parent1: { actualMonthly: 3000 } };
+    setDottedField(target, "parent1.actualMonthly.frequency", "WEEKLY");
+    expect(target.parent1).toEqual({ actualMonthly: { amount: 3000, frequency: "WEEKLY" } });
+  });
+});
+
+describe("runBatch", () => {
+  it("keeps going past bad records and summarizes failures and advisories", () => {
+    const jsonl = [
+      JSON.stringify(good),
+      "{not json",
+      JSON.stringify({ ...good, caseId: 2, parent1: { actualMonthly: -5 } }),
+      JSON.stringify({ ...good, caseId: "C-4", parent1: { actualMonthly: 30000 }, parent2: { actualMonthly: 30000 } }),
+      "[]",
+    ].join("\n");
+    const report = runBatch(parseJsonlRecords(jsonl), demoSchedule);
+
+    expect(report.results.map((r) => r.ok)).toEqual([true, false, false, true, false]);
+    expect(report.results[1].error?.code).toBe("invalid_record");
+    expect(report.results[2].error?.code).toBe("validation_failed");
+    expect(report.results[2].caseId).toBe("2");
+    expect(report.summary).toMatchObject({ total: 5, succeeded: 2, failed: 3 });
+    expect(report.summary.advisories.aboveTopOfSchedule).toBe(1);
+    expect(report.summary.failures[1].message).toMatch(/^parent1\.actualMonthly: /);
+    expect(BatchReport.safeParse(report).success).toBe(true);
+
+    const lines = formatBatchSummary(report.summary);
+    expect(lines[0]).toBe("5 cases: 2 succeeded, 3 failed.");
+    expect(lines).toContain("1 flagged aboveTopOfSchedule.");
+  });
+});
+
+describe("batch request helpers", () => {
+  it("picks the format from a file name or media type", () => {
+    expect(batchFormatFor("cases.CSV")).toBe("csv");
+    expect(batchFormatFor("text/csv; charset=utf-8")).toBe("csv");
+    expect(batchFormatFor("application/x-ndjson")).toBe("jsonl");
+    expect(batchFormatFor("cases.jsonl")).toBe("jsonl");
+    expect(batchFormatFor("application/json")).toBeNull();
+  });
+
+  it("answers 200 with the report, or 400 when there are no cases", () => {
+    expect(handleBatchRequest(JSON.stringify(good), "jsonl", demoSchedule).status).toBe(200);
+    expect(handleBatchRequest("\n\n", "jsonl", demoSchedule).status).toBe(400);
+  });
+});
@@ -55,5 +55,105 @@ describe("calculateCase - Worksheet A", () => {
     expect(result.recommendedOrderParent1PaysParent2).toBeCloseTo(-184.8125, 4);
     expect(result.worksheet.line4_basic).toBe(341);
     expect(result.worksheet.line9_recommendedOrder).toBeCloseTo(184.8125, 4);
+    expect(result.worksheet.line4a_childcare).toBe(120);
+    expect(result.worksheet.line4a_p1Share).toBeCloseTo(67.5, 4);
+    expect(result.worksheet.line4b_p2Share).toBeCloseTo(13.125, 4);
+    expect(result.worksheet.line4b_p2DirectPay).toBe(30);
+    expect(result.worksheet.line4c_extraordinaryMedical).toBeUndefined();
+    expect(result.notes.some((n) => n.includes("direct payments"))).toBe(false);
+  });
+
+  it("reconciles direct payments one category at a time", () => {
+    const parent = {
+      actualMonthly: 800,
+      preexistingSupportPaid: 0,
+      alimonyPaid: 0,
+      alimonyReceived: 0,
+      multifamilyChildrenInHome: 0,
+    };
+    const inputs: CaseInputs = {
+      numChildrenThisCase: 2,
+      custodyType: "PRIMARY",
+      primaryCustodian: "P1",
+      overnightsParent1: 365,
+      parent1: parent,
+      parent2: parent,
+      addOns: {
+        childcare: 120,
+        healthInsurance: 30,
+        extraordinaryMedical: 0,
+        cashMedicalIVD: 0,
+        additionalExpenses: 0,
+      },
+      directPay: {
+        parent1: {
+          childcare: 150,
+          healthInsurance: 0,
+          extraordinaryMedical: 0,
+          cashMedicalIVD: 0,
+          additionalExpenses: 0,
+        },
+        parent2: {
+          childcare: 0,
+          healthInsurance: 0,
+          extraordinaryMedical: 0,
+          cashMedicalIVD: 0,
+          additionalExpenses: 0,
+        },
+      },
+    };
+
+    // The totals agree (150 paid, 150 reported) but the categories do not:
+    // only the 120 of childcare counts, and nothing offsets the insurance.
+    const result = calculateCase(inputs, demoSchedule);
+    expect(result.worksheet.line7_p1DirectPay).toBe(120);
+    expect(result.worksheet.line4a_p1DirectPay).toBe(150);
+    expect(result.worksheet.line4a_p1DirectPayCredited).toBe(120);
+    expect(result.worksheet.line4b_p1DirectPay).toBe(0);
+    expect(result.worksheet.line4b_p1DirectPayCredited).toBeUndefined();
+    expect(result.worksheet.line8_p1Recommended).toBeCloseTo(result.worksheet.line6_p1Obligation - 120, 6);
+    expect(result.notes).toContain(
+      "Note: direct payments do not match the add-ons for childcare (paid 150.00, reported 120.00, credited 120.00); health insurance (paid 0.00, reported 30.00)."
+    );
+  });
+});
+
+describe("calculateCase - self-support reserve", () => {
+  it("flags results drawn from an asterisked schedule cell", () => {
+    const parent = {
+      actualMonthly: 600,
+      preexistingSupportPaid: 0,
+      alimonyPaid: 0,
+      alimonyReceived: 0,
+      multifamilyChildrenInHome: 0,
+    };
+    const zeroDirect = {
+      childcare: 0,
+      healthInsurance: 0,
+      extraordinaryMedical: 0,
+      cashMedicalIVD: 0,
+      additionalExpenses: 0,
+    };
+    const inputs: CaseInputs = {
+      numChildrenThisCase: 1,
+      custodyType: "PRIMARY",
+      primaryCustodian: "P1",
+      overnightsParent1: 365,
+      parent1: parent,
+      parent2: parent,
+      addOns: {
+        childcare: 0,
+        healthInsurance: 0,
+        extraordinaryMedical: 0,
+        cashMedicalIVD: 0,
+        additionalExpenses: 0,
+      },
+      directPay: { parent1: zeroDirect, parent2: zeroDirect },
+    };
+
+    const result = calculateCase(inputs, demoSchedule);
+    expect(result.worksheet.line4_basic).toBe(50);
+    expect(result.advisory).toBe("selfSupportReserve");
+    expect(result.notes.some((n) => n.includes("self-support reserve"))).toBe(true);
   });
 });
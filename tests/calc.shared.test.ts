@@ -1,7 +1,7 @@
 import { describe, expect, it } from "vitest";
 import { calculateCase } from "../src/calc";
 import { demoSchedule } from "../src/schedule";
-import type { CaseInputs } from "../src/schema";
+import { CaseInputs } from "../src/schema";
 
 describe("calculateCase - Worksheet B", () => {
   it("handles the shared custody sample case", () => {
@@ -52,8 +52,47 @@ describe("calculateCase - Worksheet B", () => {
     const result = calculateCase(inputs, demoSchedule);
     expect(result.path).toBe("WorksheetB");
     expect(result.payor).toBe("P2");
-    expect(result.recommendedOrderParent1PaysParent2).toBeCloseTo(-63.80522, 4);
+    expect(result.recommendedOrderParent1PaysParent2).toBeCloseTo(-28.18022, 4);
     expect(result.worksheet.line5_adjustedBasic).toBeCloseTo(511.5, 4);
-    expect(result.worksheet.line15_p2Recommended).toBeCloseTo(158.24486, 4);
+    expect(result.worksheet.line14_p2WorksheetC).toBeCloseTo(35.625, 4);
+    expect(result.worksheet.line15_p1NetBasic).toBeCloseTo(7.44478, 4);
+    expect(result.worksheet.line13a_p1Share).toBeCloseTo(67.5, 4);
+    expect(result.worksheet.line13b_p2Share).toBeCloseTo(13.125, 4);
+    expect(result.worksheet.line13_totalAddOns).toBe(150);
+  });
+
+  it("settles add-ons paid only in part through Worksheet C and notes the gap", () => {
+    const raw = {
+      numChildrenThisCase: 2,
+      custodyType: "SHARED",
+      overnightsParent1: 180,
+      parent1: { actualMonthly: 3500 },
+      parent2: { actualMonthly: 2500 },
+      addOns: { childcare: 600 },
+      directPay: { parent1: { childcare: 400 }, parent2: {} },
+    };
+    const result = calculateCase(CaseInputs.parse(raw), demoSchedule);
+    expect(result.path).toBe("WorksheetB");
+    expect(result.worksheet.line13a_p1Share).toBeCloseTo(350, 4);
+    expect(result.worksheet.worksheetC_b_p1Excess).toBeCloseTo(50, 4);
+    expect(result.worksheet.line14_p2WorksheetC).toBeCloseTo(50, 4);
+    expect(result.notes).toContain(
+      "Note: direct payments do not match the add-ons for childcare (paid 400.00, reported 600.00)."
+    );
+  });
+
+  it("calculates a redirected shared case whose add-ons nobody pays directly", () => {
+    const inputs = CaseInputs.parse({
+      numChildrenThisCase: 1,
+      custodyType: "SHARED",
+      overnightsParent1: 50,
+      parent1: { actualMonthly: 3000 },
+      parent2: { actualMonthly: 2000 },
+      addOns: { childcare: 200 },
+    });
+    const result = calculateCase(inputs, demoSchedule);
+    expect(result.path).toBe("WorksheetA");
+    expect(result.advisory).toBe("redirectedToWorksheetA");
+    expect(result.worksheet.line4a_childcare).toBe(200);
   });
 });
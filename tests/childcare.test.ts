@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { computeChildcare } from "../src/childcare";
+import { calculateCase } from "../src/calc";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs } from "../src/schema";
+
+describe("computeChildcare", () => {
+  it("turns hours and rates into a monthly cost per child", () => {
+    const c = computeChildcare({
+      paidBy: "P1",
+      arrangements: [
+        { child: 1, provider: "Little Sprouts", hoursPerWeek: 30, hourlyRate: 10 },
+        { child: 1, provider: "Grandma", hoursPerWeek: 5, hourlyRate: 6 },
+        { child: 2, provider: "After-school club", hoursPerWeek: 10, hourlyRate: 9 },
+      ],
+      ceilingPerChild: 1200,
+    });
+    expect(c.perChild[0].monthly).toBeCloseTo((330 * 52) / 12, 6);
+    expect(c.perChild[1].monthly).toBeCloseTo(390, 6);
+    expect(c.overCeiling.map((p) => p.child)).toEqual([1]);
+    expect(c.net).toBe(c.gross);
+  });
+
+  it("caps the tax credit at the federal expense limit", () => {
+    const c = computeChildcare({
+      paidBy: "P2",
+      arrangements: [{ child: 1, provider: "Daycare", hoursPerWeek: 40, hourlyRate: 10 }],
+      taxCreditRate: 0.2,
+    });
+    expect(c.taxCreditOffset).toBeCloseTo(50, 6);
+    expect(c.net).toBeCloseTo(c.gross - 50, 6);
+  });
+});
+
+describe("CaseInputs with childcare", () => {
+  const raw = {
+    numChildrenThisCase: 1,
+    custodyType: "PRIMARY",
+    primaryCustodian: "P1",
+    parent1: { actualMonthly: 900 },
+    parent2: { actualMonthly: 700 },
+    addOns: {},
+    childcare: {
+      paidBy: "P1",
+      arrangements: [{ child: 1, provider: "Daycare", hoursPerWeek: 24, hourlyRate: 5 }],
+      ceilingPerChild: 500,
+      taxCreditRate: 0.2,
+    },
+  };
+
+  it("fills in the add-on and direct payment and notes the credit and ceiling", () => {
+    const inputs = CaseInputs.parse(raw);
+    expect(inputs.addOns.childcare).toBeCloseTo(470, 6);
+    expect(inputs.directPay.parent1.childcare).toBeCloseTo(470, 6);
+
+    const result = calculateCase(inputs, demoSchedule);
+    expect(result.worksheet.line4a_childcare).toBeCloseTo(470, 6);
+    expect(result.worksheet.line4a_childcareBeforeCredit).toBeCloseTo(520, 6);
+    expect(result.worksheet.line4a_taxCreditOffset).toBeCloseTo(50, 6);
+    expect(result.notes).toContain(
+      "Childcare: assumed dependent-care tax credit of 20% for P1 reduces 520.00 to 470.00 a month (offset 50.00)."
+    );
+    expect(result.notes).toContain(
+      "Note: childcare for child 1 costs 520.00 a month, above the reasonableness ceiling of 500.00; the court may find it unreasonable."
+    );
+  });
+
+  it("rejects a child outside the case", () => {
+    const parsed = CaseInputs.safeParse({
+      ...raw,
+      childcare: { ...raw.childcare, arrangements: [{ child: 2, provider: "Daycare", hoursPerWeek: 1, hourlyRate: 1 }] },
+    });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["childcare", "arrangements", 0, "child"]);
+  });
+});
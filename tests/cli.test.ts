@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { parseCliArgs, runCli, type CliIo } from "../src/cli";
+
+function memoryIo(files: Record<string, string> = {}) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const io: CliIo = {
+    readText: (file) => {
+      if (!(file in files)) throw new Error(`ENOENT: ${file}`);
+      return files[file];
+    },
+    out: (text) => out.push(text),
+    err: (text) => err.push(text),
+  };
+  return { io, out, err };
+}
+
+const caseYaml = `
+numChildrenThisCase: 1
+custodyType: PRIMARY
+parent1:
+  actualMonthly: 3000
+parent2:
+  actualMonthly: { amount: 24000, frequency: ANNUAL }
+addOns: {}
+`;
+
+describe("parseCliArgs", () => {
+  it("separates options, case fields and positionals", () => {
+    expect(parseCliArgs(["case.yaml", "--parent1.actualMonthly=3000", "-o", "json", "--custodyType", "SHARED"])).toEqual({
+      positional: ["case.yaml"],
+      options: { output: "json" },
+      fields: [["parent1.actualMonthly", "3000"], ["custodyType", "SHARED"]],
+      help: false,
+    });
+  });
+
+  it("rejects flags that are not options or CaseInputs fields", () => {
+    expect(parseCliArgs(["--parnet1.actualMonthly", "3000"])).toEqual({ error: "Unknown option --parnet1.actualMonthly." });
+    expect(parseCliArgs(["--parent1.actualMonthy", "3000"])).toEqual({ error: "Unknown option --parent1.actualMonthy." });
+    expect(parseCliArgs(["--schedule"])).toEqual({ error: "--schedule needs a value." });
+  });
+});
+
+describe("runCli", () => {
+  it("runs a YAML case and prints the summary table", () => {
+    const { io, out } = memoryIo({ "case.yaml": caseYaml });
+    expect(runCli(["case.yaml"], io)).toBe(0);
+    expect(out[0]).toMatch(/^Worksheet\s+WorksheetA$/m);
+    expect(out[0]).toMatch(/^Recommended order\s+369\.60 \(P2 pays P1\)$/m);
+  });
+
+  it("lets flags override the file and builds a case from flags alone", () => {
+    const { io, out } = memoryIo({ "case.yaml": caseYaml });
+    expect(runCli(["case.yaml", "--parent2.actualMonthly", "3000", "--output", "json"], io)).toBe(0);
+    expect(JSON.parse(out[0]).worksheet.line2_p2AAI).toBe(3000);
+
+    const flagsOnly = memoryIo();
+    const argv = ["--numChildrenThisCase", "1", "--custodyType", "PRIMARY", "--parent1.actualMonthly", "3000", "--parent2.actualMonthly", "2000", "-o", "worksheet"];
+    expect(runCli(argv, flagsOnly.io)).toBe(0);
+    expect(flagsOnly.out[0]).toMatch(/^line4_basic\s+924\.00$/m);
+  });
+
+  it("reads the case from stdin when given -", () => {
+    const { io, out } = memoryIo({ "-": caseYaml });
+    expect(runCli(["-", "-o", "json"], io)).toBe(0);
+    expect(JSON.parse(out[0]).path).toBe("WorksheetA");
+  });
+
+  it("exits 1 and lists each validation problem", () => {
+    const { io, err } = memoryIo({ "case.yaml": caseYaml });
+    expect(runCli(["case.yaml", "--parent1.actualMonthly", "lots", "--numChildrenThisCase", "0"], io)).toBe(1);
+    expect(err[0]).toBe("Case inputs failed validation:");
+    expect(err.some((l) => l.startsWith("- parent1.actualMonthly: "))).toBe(true);
+    expect(err.some((l) => l.startsWith("- numChildrenThisCase: "))).toBe(true);
+  });
+
+  it("exits 2 for usage mistakes and unreadable files", () => {
+    expect(runCli([], memoryIo().io)).toBe(2);
+    expect(runCli(["missing.yaml"], memoryIo().io)).toBe(2);
+    expect(runCli(["case.yaml", "-o", "pdf"], memoryIo({ "case.yaml": caseYaml }).io)).toBe(2);
+  });
+
+  it("uses a schedule file in place of the built-in registry", () => {
+    const csv = "Combined Income,1 Child\n0-1200,100\n10000,900\n";
+    const { io, out } = memoryIo({ "case.yaml": caseYaml, "schedule.csv": csv });
+    expect(runCli(["case.yaml", "--schedule", "schedule.csv", "-o", "json"], io)).toBe(0);
+    const result = JSON.parse(out[0]);
+    expect(result.worksheet.line4_basic).toBe(900);
+    expect(result.scheduleVersion).toBeNull();
+  });
+
+  it("runs a batch file and exits 1 when a record failed", () => {
+    const jsonl = `${JSON.stringify({ numChildrenThisCase: 1, custodyType: "PRIMARY", parent1: { actualMonthly: 3000 }, parent2: { actualMonthly: 2000 }, addOns: {} })}\n{}\n`;
+    const { io, out, err } = memoryIo({ "cases.jsonl": jsonl });
+    expect(runCli(["batch", "cases.jsonl"], io)).toBe(1);
+    expect(out).toHaveLength(2);
+    expect(err[0]).toBe("2 cases: 1 succeeded, 1 failed.");
+  });
+});
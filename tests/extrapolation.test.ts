@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { calculateCase } from "../src/calc";
+import { extrapolateBasicObligation } from "../src/extrapolation";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs } from "../src/schema";
+
+describe("extrapolateBasicObligation", () => {
+  it("caps at the top row", () => {
+    const e = extrapolateBasicObligation(demoSchedule, 40000, 2, "CAP_AT_TOP_ROW");
+    expect(e.amount).toBe(4596);
+    expect(e.rate).toBeNull();
+  });
+
+  it("extends the top-row percentage", () => {
+    const e = extrapolateBasicObligation(demoSchedule, 40000, 2, "TOP_ROW_PERCENTAGE");
+    expect(e.amount).toBeCloseTo(6128, 4);
+  });
+
+  it("extends the marginal rate of the last band", () => {
+    const e = extrapolateBasicObligation(demoSchedule, 40000, 2, "MARGINAL_RATE");
+    expect(e.rate).toBeCloseTo(0.1, 6);
+    expect(e.amount).toBeCloseTo(5596, 4);
+  });
+});
+
+describe("calculateCase - above the schedule", () => {
+  const inputs = CaseInputs.parse({
+    numChildrenThisCase: 2,
+    custodyType: "PRIMARY",
+    parent1: { actualMonthly: 15000 },
+    parent2: { actualMonthly: 25000 },
+    addOns: {},
+  });
+
+  it("returns no order when no method is chosen", () => {
+    const result = calculateCase(inputs, demoSchedule);
+    expect(result.advisory).toBe("aboveTopOfSchedule");
+    expect(result.payor).toBeNull();
+  });
+
+  it("produces an illustrative order and keeps the advisory", () => {
+    const result = calculateCase({ ...inputs, aboveScheduleMethod: "MARGINAL_RATE" }, demoSchedule);
+    expect(result.advisory).toBe("aboveTopOfSchedule");
+    expect(result.payor).toBe("P2");
+    expect(result.worksheet.line4_basic).toBeCloseTo(5596, 4);
+    expect(result.worksheet.line4_scheduleTopIncome).toBe(30000);
+    expect(result.worksheet.line9_recommendedOrder).toBeCloseTo(5596 * 0.625, 4);
+    expect(result.notes.some((n) => n.includes("marginal rate"))).toBe(true);
+  });
+
+  it("carries the method through Worksheet B", () => {
+    const result = calculateCase(
+      { ...inputs, custodyType: "SHARED", overnightsParent1: 182, aboveScheduleMethod: "CAP_AT_TOP_ROW" },
+      demoSchedule
+    );
+    expect(result.path).toBe("WorksheetB");
+    expect(result.advisory).toBe("aboveTopOfSchedule");
+    expect(result.worksheet.line5_adjustedBasic).toBeCloseTo(4596 * 1.5, 4);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { calculateCase } from "../src/calc";
+import { combinedForm, worksheetForms } from "../src/forms";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs } from "../src/schema";
+
+function run(raw: unknown) {
+  const inputs = CaseInputs.parse(raw);
+  return { inputs, outputs: calculateCase(inputs, demoSchedule) };
+}
+
+describe("worksheetForms", () => {
+  it("lays out Worksheet A in form order with line 1 from the inputs", () => {
+    const { inputs, outputs } = run({
+      numChildrenThisCase: 1,
+      custodyType: "PRIMARY",
+      parent1: { actualMonthly: 3000, alimonyPaid: 100 },
+      parent2: { actualMonthly: 2000 },
+      addOns: { childcare: 200 },
+    });
+    const [form] = worksheetForms(outputs, inputs);
+    expect(form).toMatchObject({ form: "A", formNumber: "CC-DR-034", numChildren: 1, payor: "P2", worksheetC: null });
+    expect(form.lines.map((l) => l.line)).toEqual([
+      "1", "1a", "1b", "1c", "1d", "2", "3", "4", "4a", "4b", "4c", "4d", "4e", "5", "6", "7", "8", "9",
+    ]);
+    const line = (n: string) => form.lines.find((l) => l.line === n)!;
+    expect(line("1b")).toMatchObject({ p1: 100, p2: 0, operator: "-" });
+    expect(line("1d")).toMatchObject({ p1: 0, p2: 0 });
+    expect(line("2")).toMatchObject({ p1: 2900, p2: 2000, combined: 4900 });
+    expect(line("4a").combined).toBe(200);
+    expect(line("9")).toMatchObject({ p1: null, p2: outputs.worksheet.line9_recommendedOrder });
+  });
+
+  it("lays out Worksheet B with overnights and the order in the payor's column", () => {
+    const { inputs, outputs } = run({
+      numChildrenThisCase: 2,
+      custodyType: "SHARED",
+      overnightsParent1: 180,
+      parent1: { actualMonthly: 3500 },
+      parent2: { actualMonthly: 2500 },
+      addOns: {},
+    });
+    const [form] = worksheetForms(outputs, inputs);
+    expect(form).toMatchObject({ form: "B", formNumber: "CC-DR-035", payor: "P1" });
+    expect(form.lines.map((l) => l.line).slice(7)).toEqual([
+      "4", "5", "6", "7", "8", "9", "10", "11", "12", "13", "13a", "13b", "13c", "13d", "13e", "14", "15", "16",
+    ]);
+    expect(form.lines.find((l) => l.line === "6")).toMatchObject({ kind: "count", p1: 180, p2: 185, combined: 365 });
+    expect(form.lines[form.lines.length - 1]).toMatchObject({ p1: outputs.recommendedOrderParent1PaysParent2, p2: null });
+  });
+
+  it("gives split custody one Worksheet A per household and a netting form", () => {
+    const { inputs, outputs } = run({
+      numChildrenThisCase: 3,
+      custodyType: "SPLIT",
+      childrenWithParent1: 1,
+      parent1: { actualMonthly: 3000 },
+      parent2: { actualMonthly: 2000 },
+      addOns: {},
+    });
+    const forms = worksheetForms(outputs, inputs);
+    expect(forms.map((f) => [f.form, f.subtitle, f.numChildren, f.payor])).toEqual([
+      ["A", "Children living with Parent 1", 1, "P2"],
+      ["A", "Children living with Parent 2", 2, "P1"],
+    ]);
+    const netting = combinedForm(outputs)!;
+    expect(netting.lines[netting.lines.length - 1]).toMatchObject({ p1: outputs.recommendedOrderParent1PaysParent2, p2: null });
+  });
+
+  it("gives per-child schedules one form per group of children", () => {
+    const { inputs, outputs } = run({
+      numChildrenThisCase: 2,
+      custodyType: "PER_CHILD",
+      overnightsByChild: [365, 150],
+      parent1: { actualMonthly: 3000 },
+      parent2: { actualMonthly: 2000 },
+      addOns: {},
+    });
+    expect(worksheetForms(outputs, inputs).map((f) => f.formNumber)).toEqual(["CC-DR-035", "CC-DR-034"]);
+    expect(combinedForm(outputs)?.lines).toHaveLength(3);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { toMonthly } from "../src/frequency";
+import { calculateCase } from "../src/calc";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs } from "../src/schema";
+
+describe("toMonthly", () => {
+  it("uses the 52/12 and 26/12 factors for weekly and bi-weekly pay", () => {
+    expect(toMonthly(120, "WEEKLY")).toBeCloseTo(520, 6);
+    expect(toMonthly(120, "BIWEEKLY")).toBeCloseTo(260, 6);
+    expect(toMonthly(120, "SEMIMONTHLY")).toBe(240);
+    expect(toMonthly(120, "MONTHLY")).toBe(120);
+    expect(toMonthly(12000, "ANNUAL")).toBe(1000);
+  });
+});
+
+describe("CaseInputs frequency normalization", () => {
+  const raw = {
+    numChildrenThisCase: 2,
+    custodyType: "PRIMARY",
+    parent1: { actualMonthly: { amount: 12000, frequency: "ANNUAL" } },
+    parent2: { actualMonthly: 700 },
+    addOns: { childcare: { amount: 60, frequency: "SEMIMONTHLY" } },
+    directPay: {
+      parent1: { childcare: { amount: 30, frequency: "WEEKLY" } },
+    },
+  };
+
+  it("converts every entry to monthly and records the original", () => {
+    const inputs = CaseInputs.parse(raw);
+    expect(inputs.parent1.actualMonthly).toBe(1000);
+    expect(inputs.parent2.actualMonthly).toBe(700);
+    expect(inputs.addOns.childcare).toBe(120);
+    expect(inputs.directPay.parent1.childcare).toBeCloseTo(130, 6);
+    expect(inputs.frequencyConversions).toEqual([
+      { field: "parent1.actualMonthly", amount: 12000, frequency: "ANNUAL", monthly: 1000 },
+      { field: "addOns.childcare", amount: 60, frequency: "SEMIMONTHLY", monthly: 120 },
+      { field: "directPay.parent1.childcare", amount: 30, frequency: "WEEKLY", monthly: 130 },
+    ]);
+  });
+
+  it("leaves parsed inputs alone when they are parsed again", () => {
+    // The itemized income, premium, childcare and uninsured medical entries
+    // are turned into plain amounts on the first parse; the second must not
+    // count them again.
+    const derived = {
+      ...raw,
+      primaryCustodian: "P1",
+      parent1: {
+        incomeSources: [{ type: "WAGES", amount: { amount: 150, frequency: "WEEKLY" } }],
+      },
+      addOns: { uninsuredMedicalByChild: [{ amount: 1300, frequency: "ANNUAL" }, 0] },
+      directPay: {},
+      healthInsurancePremium: { paidBy: "P2", familyPremium: 300, peopleCovered: 3, childrenCovered: 2 },
+      childcare: {
+        paidBy: "P1",
+        arrangements: [{ child: 1, provider: "Daycare", hoursPerWeek: 24, hourlyRate: 5 }],
+        taxCreditRate: 0.2,
+      },
+    };
+    for (const entry of [raw, derived]) {
+      const once = CaseInputs.parse(entry);
+      expect(CaseInputs.parse(once)).toEqual({ ...once, frequencyConversions: undefined });
+    }
+  });
+
+  it("ignores conversion records sent in with the inputs", () => {
+    const injected = {
+      ...raw,
+      frequencyConversions: [{ field: "parent2.actualMonthly", amount: 1, frequency: "ANNUAL", monthly: 700 }],
+    };
+    expect(CaseInputs.parse(injected).frequencyConversions?.map((c) => c.field)).toEqual([
+      "parent1.actualMonthly",
+      "addOns.childcare",
+      "directPay.parent1.childcare",
+    ]);
+  });
+
+  it("rejects an unknown frequency", () => {
+    const bad = { ...raw, parent2: { actualMonthly: { amount: 700, frequency: "DAILY" } } };
+    expect(CaseInputs.safeParse(bad).success).toBe(false);
+  });
+
+  it("reports the conversions in the outputs", () => {
+    const result = calculateCase(CaseInputs.parse(raw), demoSchedule);
+    expect(result.worksheet.line2_p1AAI).toBe(1000);
+    expect(result.frequencyConversions.map((c) => c.field)).toEqual([
+      "parent1.actualMonthly",
+      "addOns.childcare",
+      "directPay.parent1.childcare",
+    ]);
+  });
+});
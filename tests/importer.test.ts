@@ -0,0 +1,34 @@
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { formatImportIssues, importScheduleCsv, importScheduleCsvFile } from "../src/importer";
+import { demoSchedule } from "../src/schedule";
+
+describe("importScheduleCsv", () => {
+  it("reproduces the built-in schedule from docs/schedule.csv", () => {
+    const report = importScheduleCsvFile(path.join(__dirname, "../docs/schedule.csv"));
+    expect(report.issues).toEqual([]);
+    expect(report.ok).toBe(true);
+    expect(report.schedule?.combinedMonthlyIncome).toEqual(demoSchedule.combinedMonthlyIncome);
+    expect(report.schedule?.byChildren).toEqual(demoSchedule.byChildren);
+    expect(report.schedule?.flags?.selfSupportReserve).toEqual(demoSchedule.flags?.selfSupportReserve);
+    expect(report.schedule?.openEndedColumn).toBe("6");
+  });
+
+  it("reports every row-level problem instead of stopping", () => {
+    const csv = [
+      "Combined Adjusted Actual Income,1 Child,2 Children",
+      "0-1200,*50,*55",
+      "1250,74",
+      "1200,80,85",
+      "1300,abc,90",
+    ].join("\n");
+    const report = importScheduleCsv(csv);
+    expect(report.ok).toBe(false);
+    expect(report.schedule).toBeNull();
+    expect(formatImportIssues(report)).toEqual([
+      "line 3: Row has 2 cells; header has 3.",
+      'line 4, column "Combined Adjusted Actual Income": Income 1200 is not above the previous row (1200).',
+      'line 5, column "1 Child": Amount "abc" is not a number.',
+    ]);
+  });
+});
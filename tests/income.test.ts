@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { itemizeIncome } from "../src/income";
+import { calculateCase } from "../src/calc";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs } from "../src/schema";
+
+describe("itemizeIncome", () => {
+  it("nets self-employment and rental receipts and leaves out excluded sources", () => {
+    const result = itemizeIncome([
+      { type: "WAGES", amount: 1500, expenses: 0 },
+      { type: "SELF_EMPLOYMENT", amount: 900, expenses: 400 },
+      { type: "RENTAL", amount: 300, expenses: 450 },
+      { type: "MEANS_TESTED_ASSISTANCE", amount: 250, expenses: 0 },
+    ]);
+    expect(result.lines.map((l) => l.counted)).toEqual([1500, 500, 0, 250]);
+    expect(result.includedTotal).toBe(2000);
+    expect(result.excludedTotal).toBe(250);
+  });
+});
+
+describe("CaseInputs with itemized income", () => {
+  const raw = {
+    numChildrenThisCase: 2,
+    custodyType: "PRIMARY",
+    parent1: {
+      incomeSources: [
+        { type: "WAGES", amount: { amount: 150, frequency: "WEEKLY" } },
+        { type: "SEVERANCE", amount: 250 },
+        { type: "CHILD_SUPPORT_RECEIVED", amount: 300 },
+      ],
+    },
+    parent2: { actualMonthly: 700 },
+    addOns: {},
+  };
+
+  it("computes actualMonthly from the counted sources", () => {
+    const inputs = CaseInputs.parse(raw);
+    expect(inputs.parent1.actualMonthly).toBeCloseTo(900, 6);
+  });
+
+  it("requires either a figure or sources", () => {
+    const parsed = CaseInputs.safeParse({ ...raw, parent2: {} });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["parent2", "actualMonthly"]);
+  });
+
+  it("rejects a figure that disagrees with the sources", () => {
+    const parsed = CaseInputs.safeParse({ ...raw, parent1: { ...raw.parent1, actualMonthly: 1000 } });
+    expect(parsed.success).toBe(false);
+  });
+
+  it("rejects expenses on a source that is not measured net of expenses", () => {
+    const parsed = CaseInputs.safeParse({
+      ...raw,
+      parent2: { incomeSources: [{ type: "WAGES", amount: 700, expenses: 50 }] },
+    });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["parent2", "incomeSources", 0, "expenses"]);
+  });
+
+  it("shows the itemization and excluded sources in the outputs", () => {
+    const result = calculateCase(CaseInputs.parse(raw), demoSchedule);
+    expect(result.worksheet.line2_p1AAI).toBeCloseTo(900, 6);
+    expect(result.incomeItemization.parent1?.excludedTotal).toBe(300);
+    expect(result.incomeItemization.parent2).toBeNull();
+    expect(result.notes).toContain(
+      "P1's itemized income leaves out 300.00 of excluded sources (child support received for other children)."
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { extraordinaryMedicalFromCosts } from "../src/medical";
+import { calculateCase } from "../src/calc";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs } from "../src/schema";
+
+describe("extraordinaryMedicalFromCosts", () => {
+  it("leaves out the first $100 per child per year", () => {
+    const e = extraordinaryMedicalFromCosts([1300 / 12, 50 / 12]);
+    expect(e.qualifying).toBeCloseTo(100, 6);
+    expect(e.excluded).toBeCloseTo(150 / 12, 6);
+    expect(e.perChild[1].qualifying).toBe(0);
+  });
+});
+
+describe("CaseInputs with uninsured medical costs", () => {
+  const raw = {
+    numChildrenThisCase: 2,
+    custodyType: "PRIMARY",
+    parent1: { actualMonthly: 900 },
+    parent2: { actualMonthly: 700 },
+    addOns: {
+      uninsuredMedicalByChild: [
+        { amount: 1300, frequency: "ANNUAL" },
+        { amount: 50, frequency: "ANNUAL" },
+      ],
+    },
+  };
+
+  it("reports the qualifying amount on line 4c with a note", () => {
+    const inputs = CaseInputs.parse(raw);
+    expect(inputs.addOns.extraordinaryMedical).toBeCloseTo(100, 6);
+    const result = calculateCase(inputs, demoSchedule);
+    expect(result.worksheet.line4c_extraordinaryMedical).toBeCloseTo(100, 6);
+    expect(result.worksheet.line4c_uninsuredMedicalCosts).toBeCloseTo(112.5, 6);
+    expect(result.worksheet.line4c_belowThreshold).toBeCloseTo(12.5, 6);
+    expect(result.notes).toContain(
+      "Extraordinary medical: the first 100.00 per child per year of uninsured costs is ordinary, so 150.00 a year of the 1350.00 reported for 2 children was left out; 100.00 a month qualifies."
+    );
+  });
+
+  it("uses line 13c on Worksheet B", () => {
+    const result = calculateCase(
+      CaseInputs.parse({
+        ...raw,
+        custodyType: "SHARED",
+        overnightsParent1: 200,
+        directPay: { parent1: { extraordinaryMedical: 100 }, parent2: {} },
+      }),
+      demoSchedule
+    );
+    expect(result.worksheet.line13c_extraordinaryMedical).toBeCloseTo(100, 6);
+    expect(result.worksheet.line13c_belowThreshold).toBeCloseTo(12.5, 6);
+  });
+
+  it("rejects more children than the case has", () => {
+    const parsed = CaseInputs.safeParse({ ...raw, numChildrenThisCase: 1 });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["addOns", "uninsuredMedicalByChild"]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { calculateCase } from "../src/calc";
+import { caseInputsJsonSchema, caseOutputsJsonSchema, openApiDocument } from "../src/openapi";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs, CaseOutputs } from "../src/schema";
+
+describe("CaseOutputs schema", () => {
+  it("accepts what the calculator returns on every path", () => {
+    const cases = [
+      { numChildrenThisCase: 1, custodyType: "PRIMARY", parent1: { actualMonthly: 3000 }, parent2: { actualMonthly: 2000 }, addOns: {} },
+      { numChildrenThisCase: 2, custodyType: "SHARED", overnightsParent1: 180, parent1: { actualMonthly: { amount: 1500, frequency: "BIWEEKLY" } }, parent2: { actualMonthly: 2500 }, addOns: {} },
+      { numChildrenThisCase: 3, custodyType: "SPLIT", childrenWithParent1: 1, parent1: { actualMonthly: 3000 }, parent2: { actualMonthly: 2000 }, addOns: {} },
+      { numChildrenThisCase: 2, custodyType: "PER_CHILD", overnightsByChild: [365, 150], parent1: { actualMonthly: 3000 }, parent2: { actualMonthly: 2000 }, addOns: {} },
+    ];
+    for (const raw of cases) {
+      const result = calculateCase(CaseInputs.parse(raw), demoSchedule);
+      expect(CaseOutputs.safeParse(result).success).toBe(true);
+    }
+  });
+});
+
+describe("JSON Schema export", () => {
+  it("describes inputs as a client sends them", () => {
+    const schema = caseInputsJsonSchema() as { properties: Record<string, unknown>; required: string[] };
+    expect(schema.required).toEqual(expect.arrayContaining(["numChildrenThisCase", "custodyType", "parent1", "parent2"]));
+    expect(schema.required).not.toContain("overnightsParent1");
+    expect(Object.keys(schema.properties)).toContain("parentingPlan");
+  });
+
+  it("lists every output field as required", () => {
+    const schema = caseOutputsJsonSchema() as { required: string[] };
+    expect([...schema.required].sort()).toEqual(Object.keys(CaseOutputs.shape).sort());
+  });
+});
+
+describe("openApiDocument", () => {
+  const doc = openApiDocument() as {
+    openapi: string;
+    paths: Record<string, Record<string, { responses: Record<string, unknown> }>>;
+    components: { schemas: Record<string, Record<string, unknown>>; responses: Record<string, unknown> };
+  };
+
+  it("documents the calculate endpoint and its error responses", () => {
+    expect(doc.openapi).toBe("3.1.0");
+    const responses = doc.paths["/api/v1/calculate"].post.responses;
+    expect(Object.keys(responses)).toEqual(["200", "400", "405", "413", "415", "422", "500"]);
+    expect(responses["405"]).toEqual({ $ref: "#/components/responses/MethodNotAllowed" });
+    expect(Object.keys(doc.components.responses).sort()).toEqual(["MethodNotAllowed", "NotFound"]);
+    expect(doc.paths["/api/v1/openapi.json"].get.responses["405"]).toBeDefined();
+  });
+
+  it("describes the request as sent and the responses as returned", () => {
+    const { CaseInputs: inputs, CaseOutputs: outputs, BatchReport: report } = doc.components.schemas;
+    expect(inputs.additionalProperties).toBeUndefined();
+    expect(outputs.additionalProperties).toBe(false);
+    expect(report.additionalProperties).toBe(false);
+    expect(outputs.required).toEqual((caseOutputsJsonSchema() as { required: string[] }).required);
+  });
+
+  it("points every $ref at a schema in components", () => {
+    const schemas = doc.components.schemas;
+    expect(Object.keys(schemas).sort()).toEqual(["ApiError", "BatchReport", "CaseInputs", "CaseOutputs"]);
+    const refs = JSON.stringify(doc).match(/"\$ref":"#\/components\/schemas\/[^"]+"/g) ?? [];
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      const id = ref.slice(ref.lastIndexOf("/") + 1, -1);
+      expect(schemas[id]).toBeDefined();
+    }
+    for (const schema of Object.values(schemas)) {
+      expect(schema.$schema).toBeUndefined();
+    }
+  });
+});
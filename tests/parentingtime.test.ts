@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { countOvernights } from "../src/parentingtime";
+import { calculateCase } from "../src/calc";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs, ParentingPlan } from "../src/schema";
+
+describe("countOvernights", () => {
+  it("splits alternating weeks evenly over a 365-night year", () => {
+    const c = countOvernights(
+      ParentingPlan.parse({ pattern: "ALTERNATING_WEEKS", startDate: "2025-01-01", firstParent: "P1", year: 2025 })
+    );
+    expect(c.p1Nights).toBe(183);
+    expect(c.overnightsParent1).toBe(183);
+  });
+
+  it("counts every other weekend plus a midweek night", () => {
+    const c = countOvernights(
+      ParentingPlan.parse({
+        pattern: "EVERY_OTHER_WEEKEND_MIDWEEK",
+        startDate: "2024-12-30",
+        firstParent: "P2",
+        year: 2025,
+      })
+    );
+    // 26 two-week cycles give P2 4 nights each, and Dec 29-31 start a 27th.
+    expect(c.p2Nights).toBe(104 + 1);
+    expect(c.p1Nights).toBe(260);
+  });
+
+  it("scales a leap year to 365 nights and applies overrides in order", () => {
+    const c = countOvernights(
+      ParentingPlan.parse({
+        pattern: "TWO_TWO_THREE",
+        startDate: "2024-01-01",
+        firstParent: "P1",
+        year: 2024,
+        overrides: [
+          { label: "Summer", from: "07-01", to: "07-28", parent: "P2" },
+          { label: "Winter break", from: "12-30", to: "01-01", parent: "P1", years: "EVEN" },
+          { label: "Thanksgiving", from: "11-27", to: "11-30", parent: "P2", years: "ODD" },
+        ],
+      })
+    );
+    expect(c.nightsInYear).toBe(366);
+    // 2023's winter break did not run, so 2024 only has Dec 30-31.
+    expect(c.overrides).toEqual([
+      { label: "Summer", parent: "P2", nights: 28 },
+      { label: "Winter break", parent: "P1", nights: 2 },
+    ]);
+    expect(c.p1Nights).toBe(170);
+    expect(c.overnightsParent1).toBe(Math.round((170 * 365) / 366));
+  });
+
+  it("gives a wrap-around override's January nights to the year after it starts", () => {
+    const plan = {
+      pattern: "ALTERNATING_WEEKS",
+      startDate: "2024-01-01",
+      firstParent: "P2",
+      overrides: [{ label: "Winter break", from: "12-30", to: "01-02", parent: "P1", years: "EVEN" }],
+    };
+    // Started in 2024: Dec 30-31 2024, then Jan 1-2 2025.
+    expect(countOvernights(ParentingPlan.parse({ ...plan, year: 2024 })).overrides).toEqual([
+      { label: "Winter break", parent: "P1", nights: 2 },
+    ]);
+    expect(countOvernights(ParentingPlan.parse({ ...plan, year: 2025 })).overrides).toEqual([
+      { label: "Winter break", parent: "P1", nights: 2 },
+    ]);
+    const every = ParentingPlan.parse({ ...plan, year: 2025, overrides: [{ ...plan.overrides[0], years: "ALL" }] });
+    expect(countOvernights(every).overrides[0].nights).toBe(4);
+  });
+
+  it("rejects days a month does not have", () => {
+    const override = (from: string) => ({ label: "Holiday", from, to: "05-01", parent: "P1" });
+    const plan = { pattern: "ALTERNATING_WEEKS", startDate: "2025-01-06", firstParent: "P1", year: 2025 };
+    for (const from of ["02-30", "02-31", "04-31", "06-31"]) {
+      const parsed = ParentingPlan.safeParse({ ...plan, overrides: [override(from)] });
+      expect(parsed.success).toBe(false);
+      expect(parsed.error?.issues[0].path).toEqual(["overrides", 0, "from"]);
+    }
+    expect(ParentingPlan.safeParse({ ...plan, overrides: [override("02-29")] }).success).toBe(true);
+  });
+
+  it("requires a Monday start for the weekly patterns", () => {
+    const parsed = ParentingPlan.safeParse({ pattern: "TWO_TWO_THREE", startDate: "2024-01-02", firstParent: "P1", year: 2024 });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["startDate"]);
+  });
+});
+
+describe("CaseInputs with a parenting plan", () => {
+  it("sets Parent 1's overnights and explains them in the notes", () => {
+    const inputs = CaseInputs.parse({
+      numChildrenThisCase: 1,
+      custodyType: "SHARED",
+      parent1: { actualMonthly: 3000 },
+      parent2: { actualMonthly: 2000 },
+      addOns: {},
+      parentingPlan: { pattern: "ALTERNATING_WEEKS", startDate: "2025-01-01", firstParent: "P1", year: 2025 },
+    });
+    expect(inputs.overnightsParent1).toBe(183);
+    const result = calculateCase(inputs, demoSchedule);
+    expect(result.worksheet.line6_overnightsP1).toBe(183);
+    expect(result.notes).toContain(
+      "Overnights from the parenting plan (alternating weeks, P1 first from 2025-01-01) for 2025: P1 has 183 of 365 nights."
+    );
+  });
+
+  it("refuses a typed count that differs from the plan, and a plan where it is not used", () => {
+    const entry = {
+      numChildrenThisCase: 2,
+      custodyType: "SHARED",
+      parent1: { actualMonthly: 3000 },
+      parent2: { actualMonthly: 2000 },
+      addOns: {},
+      parentingPlan: { pattern: "ALTERNATING_WEEKS", startDate: "2025-01-01", firstParent: "P1", year: 2025 },
+    };
+    expect(CaseInputs.parse({ ...entry, overnightsParent1: 183 }).overnightsParent1).toBe(183);
+    const typed = CaseInputs.safeParse({ ...entry, overnightsParent1: 300 });
+    expect(typed.error?.issues.map((i) => [i.path, i.message])).toEqual([
+      [
+        ["overnightsParent1"],
+        "overnightsParent1 (300) does not match the 183 nights parentingPlan gives Parent 1; leave it out to use the plan.",
+      ],
+    ]);
+    const split = CaseInputs.safeParse({ ...entry, custodyType: "SPLIT", childrenWithParent1: 1 });
+    expect(split.error?.issues.map((i) => i.path)).toEqual([["parentingPlan"]]);
+    const perChild = CaseInputs.safeParse({ ...entry, custodyType: "PER_CHILD", overnightsByChild: [365, 0] });
+    expect(perChild.error?.issues.map((i) => i.path)).toEqual([["parentingPlan"]]);
+  });
+});
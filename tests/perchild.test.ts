@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { calculateCase } from "../src/calc";
+import { classifyChild } from "../src/perchild";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs } from "../src/schema";
+
+describe("classifyChild", () => {
+  it("uses the 92-night threshold and then the parent with more nights", () => {
+    expect(classifyChild(92)).toBe("SHARED");
+    expect(classifyChild(273)).toBe("SHARED");
+    expect(classifyChild(300)).toBe("PRIMARY_P1");
+    expect(classifyChild(40)).toBe("PRIMARY_P2");
+  });
+});
+
+describe("PER_CHILD custody", () => {
+  const raw = {
+    numChildrenThisCase: 3,
+    custodyType: "PER_CHILD",
+    overnightsByChild: [180, 200, 40],
+    parent1: { actualMonthly: 3000 },
+    parent2: { actualMonthly: 2000 },
+    addOns: { childcare: 300 },
+    directPay: { parent1: {}, parent2: { childcare: 300 } },
+  };
+
+  it("runs each group on its own worksheet and adds the amounts", () => {
+    const result = calculateCase(CaseInputs.parse(raw), demoSchedule);
+    expect(result.path).toBe("PerChildWorksheets");
+    expect(result.worksheet.groupShared_children).toBe(2);
+    expect(result.worksheet.groupShared_line6_overnightsP1).toBe(190);
+    expect(result.worksheet.groupShared_line13a_childcare).toBeCloseTo(200, 6);
+    expect(result.worksheet.groupP2_line4_basic).toBe(924);
+    expect(result.worksheet.groupP2_orderP1PaysP2).toBeCloseTo(614.4, 6);
+    expect(result.payor).toBe("P1");
+    expect(result.recommendedOrderParent1PaysParent2).toBeCloseTo(
+      result.worksheet.groupShared_orderP1PaysP2 + result.worksheet.groupP2_orderP1PaysP2,
+      6
+    );
+    expect(result.notes[0]).toBe(
+      "Children grouped by overnights: child 1 (180 overnights with P1), child 2 (200 overnights with P1): shared custody (Worksheet B), using 190 overnights on average; child 3 (40 overnights with P1): primary custody with P2 (Worksheet A). Each group was calculated on its own with its share of the add-ons, and the amounts were added into one order."
+    );
+  });
+
+  it("puts costs given for a particular child in that child's group", () => {
+    const result = calculateCase(
+      CaseInputs.parse({
+        ...raw,
+        addOns: { uninsuredMedicalByChild: [0, 0, { amount: 1300, frequency: "ANNUAL" }] },
+        directPay: { parent1: { extraordinaryMedical: 100 }, parent2: {} },
+      }),
+      demoSchedule
+    );
+    expect(result.worksheet.groupP2_line4c_extraordinaryMedical).toBeCloseTo(100, 6);
+    expect(result.worksheet.groupP2_line4c_p1DirectPay).toBeCloseTo(100, 6);
+    expect(result.worksheet.groupShared_line13c_extraordinaryMedical).toBeUndefined();
+    expect(result.notes.find((n) => n.startsWith("Children grouped"))).toMatch(
+      /share of the add-ons \(divided by number of children, except extraordinary medical, which went with the child it was given for\)/
+    );
+  });
+
+  it("returns no order when the groups are above the schedule with no method", () => {
+    const result = calculateCase(
+      CaseInputs.parse({ ...raw, parent1: { actualMonthly: 15000 }, parent2: { actualMonthly: 25000 } }),
+      demoSchedule
+    );
+    expect(result.advisory).toBe("aboveTopOfSchedule");
+    expect(result.payor).toBeNull();
+    expect(result.recommendedOrderParent1PaysParent2).toBe(0);
+    expect(result.worksheet.combined_recommendedOrder).toBeUndefined();
+    expect(result.notes).toContain("Above top of schedule; court discretion.");
+  });
+
+  it("runs a single group as the whole case", () => {
+    const result = calculateCase(
+      CaseInputs.parse({ ...raw, numChildrenThisCase: 2, overnightsByChild: [180, 200] }),
+      demoSchedule
+    );
+    expect(result.path).toBe("WorksheetB");
+    expect(result.worksheet.line6_overnightsP1).toBe(190);
+  });
+
+  it("needs one count per child", () => {
+    const parsed = CaseInputs.safeParse({ ...raw, overnightsByChild: [180] });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["overnightsByChild"]);
+  });
+});
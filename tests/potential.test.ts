@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { incomeForWorksheet, potentialMonthlyIncome } from "../src/potential";
+import { adjustedActualIncome, calculateCase } from "../src/calc";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs, type ParentIncome } from "../src/schema";
+
+const parent: ParentIncome = {
+  actualMonthly: 400,
+  preexistingSupportPaid: 0,
+  alimonyPaid: 0,
+  alimonyReceived: 0,
+  multifamilyChildrenInHome: 0,
+};
+
+describe("potential income", () => {
+  it("works out hours times wage on a 52/12 basis", () => {
+    expect(
+      potentialMonthlyIncome({ basis: "HOURS_TIMES_WAGE", hoursPerWeek: 40, hourlyWage: 15, mode: "REPLACE" })
+    ).toBeCloseTo(2600, 6);
+  });
+
+  it("replaces or adds to actual income in AAI", () => {
+    const replace: ParentIncome = {
+      ...parent,
+      potentialIncome: { basis: "PRIOR_EARNINGS", amount: 3000, mode: "REPLACE" },
+    };
+    const add: ParentIncome = {
+      ...parent,
+      potentialIncome: { basis: "OCCUPATIONAL_DATA", amount: 1000, mode: "ADD" },
+    };
+    expect(incomeForWorksheet(parent)).toBe(400);
+    expect(adjustedActualIncome(replace)).toBe(3000);
+    expect(adjustedActualIncome(add)).toBe(1400);
+  });
+
+  it("requires the figures its basis needs", () => {
+    const parsed = CaseInputs.safeParse({
+      numChildrenThisCase: 1,
+      custodyType: "PRIMARY",
+      parent1: { actualMonthly: 0, potentialIncome: { basis: "HOURS_TIMES_WAGE", hoursPerWeek: 40 } },
+      parent2: { actualMonthly: 1000 },
+      addOns: {},
+    });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["parent1", "potentialIncome", "hourlyWage"]);
+  });
+
+  it("notes the imputed figure and its basis", () => {
+    const inputs = CaseInputs.parse({
+      numChildrenThisCase: 2,
+      custodyType: "PRIMARY",
+      parent1: { actualMonthly: 1000 },
+      parent2: {
+        actualMonthly: 0,
+        potentialIncome: {
+          basis: "PRIOR_EARNINGS",
+          amount: { amount: 24000, frequency: "ANNUAL" },
+          explanation: "Earned this as a mechanic until 2024.",
+        },
+      },
+      addOns: {},
+    });
+    const result = calculateCase(inputs, demoSchedule);
+    expect(result.worksheet.line2_p2AAI).toBe(2000);
+    expect(result.notes).toContain(
+      "P2 imputed potential income of 2000.00 (prior earnings), used in place of actual income of 0.00. Earned this as a mechanic until 2024."
+    );
+  });
+});
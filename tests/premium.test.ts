@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { apportionPremium } from "../src/premium";
+import { calculateCase } from "../src/calc";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs } from "../src/schema";
+
+describe("apportionPremium", () => {
+  it("shares the family-minus-self-only difference among dependents", () => {
+    const a = apportionPremium({
+      paidBy: "P1",
+      familyPremium: 600,
+      selfOnlyPremium: 200,
+      peopleCovered: 5,
+      childrenCovered: 2,
+    });
+    expect(a.method).toBe("selfOnlyDifference");
+    expect(a.perPerson).toBeCloseTo(100, 6);
+    expect(a.childrenShare).toBeCloseTo(200, 6);
+  });
+
+  it("shares the whole premium among everyone without a self-only figure", () => {
+    const a = apportionPremium({ paidBy: "P2", familyPremium: 600, peopleCovered: 4, childrenCovered: 1 });
+    expect(a.method).toBe("perPerson");
+    expect(a.childrenShare).toBeCloseTo(150, 6);
+  });
+});
+
+describe("CaseInputs with a family premium", () => {
+  const raw = {
+    numChildrenThisCase: 2,
+    custodyType: "PRIMARY",
+    primaryCustodian: "P1",
+    parent1: { actualMonthly: 900 },
+    parent2: { actualMonthly: 700 },
+    addOns: {},
+    healthInsurancePremium: {
+      paidBy: "P2",
+      familyPremium: { amount: 3600, frequency: "ANNUAL" },
+      selfOnlyPremium: 100,
+      peopleCovered: 3,
+      childrenCovered: 2,
+    },
+  };
+
+  it("fills in the add-on and the payer's direct payment and shows the derivation", () => {
+    const inputs = CaseInputs.parse(raw);
+    expect(inputs.addOns.healthInsurance).toBeCloseTo(200, 6);
+    expect(inputs.directPay.parent2.healthInsurance).toBeCloseTo(200, 6);
+    expect(inputs.directPay.parent1.healthInsurance).toBe(0);
+    const result = calculateCase(inputs, demoSchedule);
+    expect(result.worksheet.line4b_healthInsurance).toBeCloseTo(200, 6);
+    expect(result.worksheet.line4b_familyPremium).toBeCloseTo(300, 6);
+    expect(result.worksheet.line4b_premiumPerPerson).toBeCloseTo(100, 6);
+    expect(result.notes).toContain(
+      "Health insurance paid by P2: (family premium 300.00 − self-only premium 100.00) ÷ 2 dependents × 2 children in this case = 200.00."
+    );
+  });
+
+  it("rejects an entered health insurance amount that disagrees", () => {
+    const parsed = CaseInputs.safeParse({ ...raw, addOns: { healthInsurance: 150 } });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["addOns", "healthInsurance"]);
+  });
+
+  it("rejects more covered children than can share the premium", () => {
+    const parsed = CaseInputs.safeParse({
+      ...raw,
+      healthInsurancePremium: { ...raw.healthInsurancePremium, peopleCovered: 2 },
+    });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["healthInsurancePremium", "childrenCovered"]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { calculateCase } from "../src/calc";
+import { createScheduleRegistry, defaultScheduleRegistry, scheduleForDate } from "../src/registry";
+import { demoSchedule, type Schedule } from "../src/schedule";
+import { CaseInputs } from "../src/schema";
+
+// A stand-in for an earlier table: same rows, every amount $10 lower.
+const olderSchedule: Schedule = {
+  ...demoSchedule,
+  byChildren: Object.fromEntries(
+    Object.entries(demoSchedule.byChildren).map(([k, col]) => [k, col.map((v) => v - 10)])
+  ),
+  meta: { version: "TEST-2010-10", effectiveDate: "2010-10-01" },
+};
+
+describe("schedule registry", () => {
+  const registry = createScheduleRegistry([demoSchedule, olderSchedule]);
+
+  it("picks the table in force on the as-of date", () => {
+    expect(scheduleForDate(registry, "2021-03-15").version).toBe("TEST-2010-10");
+    expect(scheduleForDate(registry, "2022-06-30").version).toBe("TEST-2010-10");
+    expect(scheduleForDate(registry, "2022-07-01").version).toBe("MD-2022-07");
+  });
+
+  it("limits the built-in registry to the July 2022 table", () => {
+    expect(scheduleForDate(defaultScheduleRegistry, "2022-07-01").version).toBe("MD-2022-07");
+    expect(() => scheduleForDate(defaultScheduleRegistry, "2022-06-30")).toThrow(
+      "No schedule in effect on 2022-06-30 (earliest registered: 2022-07-01)"
+    );
+  });
+
+  it("rejects two tables starting the same day", () => {
+    expect(() => createScheduleRegistry([demoSchedule, demoSchedule])).toThrow();
+  });
+
+  it("records the schedule version in the case outputs", () => {
+    const inputs = CaseInputs.parse({
+      numChildrenThisCase: 2,
+      custodyType: "PRIMARY",
+      parent1: { actualMonthly: 3000 },
+      parent2: { actualMonthly: 3000 },
+      addOns: {},
+    });
+
+    const before = calculateCase({ ...inputs, asOfDate: "2022-06-30" }, registry);
+    const after = calculateCase({ ...inputs, asOfDate: "2022-07-01" }, registry);
+    expect(before.scheduleVersion).toBe("TEST-2010-10");
+    expect(after.scheduleVersion).toBe("MD-2022-07");
+    expect((after.worksheet.line4_basic ?? 0) - (before.worksheet.line4_basic ?? 0)).toBe(10);
+    expect(calculateCase(inputs, demoSchedule).scheduleVersion).toBe("MD-2022-07");
+  });
+});
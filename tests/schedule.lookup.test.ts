@@ -1,5 +1,12 @@
 import { describe, expect, it } from "vitest";
-import { demoSchedule, lookupBasicObligation } from "../src/schedule";
+import {
+  ceilingIndex,
+  childrenColumnKey,
+  compileSchedule,
+  demoSchedule,
+  lookupBasicObligation,
+  type Schedule,
+} from "../src/schedule";
 
 describe("lookupBasicObligation", () => {
   it("uses the next higher income row", () => {
@@ -9,9 +16,65 @@ describe("lookupBasicObligation", () => {
     expect(res.amount).toBe(79);
   });
 
+  it("reports when the amount comes from a self-support reserve cell", () => {
+    expect(lookupBasicObligation(demoSchedule, 1234, 2).selfSupportReserve).toBe(true);
+    expect(lookupBasicObligation(demoSchedule, 6000, 2).selfSupportReserve).toBe(false);
+  });
+
   it("flags income above the table", () => {
     const res = lookupBasicObligation(demoSchedule, 40000, 2);
     expect(res.status).toBe("aboveTop");
     expect(res.amount).toBeNull();
   });
+
+  it("maps large families onto the open-ended top column", () => {
+    const six = lookupBasicObligation(demoSchedule, 6000, 6);
+    const eight = lookupBasicObligation(demoSchedule, 6000, 8);
+    expect(eight.usedChildrenColumn).toBe("6");
+    expect(eight.amount).toBe(six.amount);
+  });
+
+  it("falls back to the highest column when none is declared", () => {
+    const { openEndedColumn, ...rest } = demoSchedule;
+    expect(openEndedColumn).toBe("6");
+    expect(childrenColumnKey(rest, 7)).toBe("6");
+    expect(() => childrenColumnKey(rest, 0)).toThrow("Schedule has no column for 0 children.");
+  });
+});
+
+describe("ceilingIndex", () => {
+  it("finds the next higher row with a binary search", () => {
+    const rows = [1200, 1250, 1300, 1350];
+    expect(ceilingIndex(rows, 0)).toBe(0);
+    expect(ceilingIndex(rows, 1200)).toBe(0);
+    expect(ceilingIndex(rows, 1200.01)).toBe(1);
+    expect(ceilingIndex(rows, 1349)).toBe(3);
+    expect(ceilingIndex(rows, 1350)).toBe(3);
+    expect(ceilingIndex(rows, 1351)).toBe(-1);
+    expect(ceilingIndex([], 10)).toBe(-1);
+  });
+});
+
+describe("compileSchedule", () => {
+  it("validates once and locks the table", () => {
+    expect(compileSchedule(demoSchedule)).toBe(demoSchedule);
+    expect(Object.isFrozen(demoSchedule)).toBe(true);
+    expect(Object.isFrozen(demoSchedule.combinedMonthlyIncome)).toBe(true);
+    expect(Object.isFrozen(demoSchedule.byChildren)).toBe(true);
+    expect(Object.isFrozen(demoSchedule.byChildren["2"])).toBe(true);
+  });
+
+  it("compiles a copy and leaves the caller's table alone", () => {
+    const table: Schedule = { combinedMonthlyIncome: [1000, 2000], byChildren: { "1": [100, 200] } };
+    const compiled = compileSchedule(table);
+    expect(compiled).not.toBe(table);
+    expect(compileSchedule(compiled)).toBe(compiled);
+    expect(Object.isFrozen(table.byChildren["1"])).toBe(false);
+  });
+
+  it("rejects a broken table", () => {
+    expect(() =>
+      compileSchedule({ combinedMonthlyIncome: [100, 50], byChildren: { "1": [1, 2] } })
+    ).toThrow("combinedMonthlyIncome must be strictly ascending.");
+  });
 });
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { calculateCase } from "../src/calc";
+import { demoSchedule } from "../src/schedule";
+import { selfSupportReserveCheck, selfSupportReserveChecks } from "../src/selfsupport";
+import { CaseInputs } from "../src/schema";
+
+describe("selfSupportReserveCheck", () => {
+  it("trims the obligation by the shortfall below the reserve", () => {
+    const check = selfSupportReserveCheck("P2", 1500, 400, 1255);
+    expect(check.remainingIncome).toBe(1100);
+    expect(check.reduction).toBe(155);
+    expect(check.obligationAfter).toBe(245);
+  });
+
+  it("never reduces below zero", () => {
+    const check = selfSupportReserveCheck("P1", 900, 200, 1255);
+    expect(check.reduction).toBe(200);
+    expect(check.obligationAfter).toBe(0);
+  });
+
+  it("leaves the obligation alone when the reserve is kept", () => {
+    const check = selfSupportReserveCheck("P1", 5000, 800, 1255);
+    expect(check.reduction).toBe(0);
+    expect(check.obligationAfter).toBe(800);
+  });
+
+  it("checks each parent on what that parent pays", () => {
+    const [p1, p2] = selfSupportReserveChecks({ P1: 1000, P2: 1500 }, "P2", 400, 1255);
+    expect(p1).toMatchObject({ parent: "P1", remainingIncome: 1000, reduction: 0 });
+    expect(p2).toMatchObject({ parent: "P2", remainingIncome: 1100, reduction: 155 });
+  });
+});
+
+describe("calculateCase - self-support reserve check", () => {
+  const inputs = CaseInputs.parse({
+    numChildrenThisCase: 2,
+    custodyType: "PRIMARY",
+    parent1: { actualMonthly: 900 },
+    parent2: { actualMonthly: 700 },
+    addOns: { childcare: 120, healthInsurance: 30 },
+    directPay: { parent1: { childcare: 120 }, parent2: { healthInsurance: 30 } },
+    selfSupportReserve: 600,
+  });
+
+  it("reduces the Worksheet A order and shows the reserve lines", () => {
+    const result = calculateCase(inputs, demoSchedule);
+    expect(result.worksheet.line8a_selfSupportReserve).toBe(600);
+    expect(result.worksheet.line8a_p2IncomeAfterSupport).toBeCloseTo(515.1875, 4);
+    expect(result.worksheet.line8a_p2ReserveReduction).toBeCloseTo(84.8125, 4);
+    expect(result.worksheet.line8a_p1IncomeAfterSupport).toBe(900);
+    expect(result.worksheet.line8a_p1ReserveReduction).toBe(0);
+    expect(result.worksheet.line9_recommendedOrder).toBeCloseTo(100, 4);
+    expect(result.notes.some((n) => n.startsWith("Self-support reserve of 600.00"))).toBe(true);
+  });
+
+  it("reduces the Worksheet B order for the paying parent", () => {
+    const result = calculateCase(
+      { ...inputs, custodyType: "SHARED", overnightsParent1: 200, selfSupportReserve: 690 },
+      demoSchedule
+    );
+    expect(result.payor).toBe("P2");
+    expect(result.worksheet.line16a_p2IncomeAfterSupport).toBeCloseTo(700 - 28.18022, 4);
+    expect(result.worksheet.line16a_p2ReserveReduction).toBeCloseTo(18.18022, 4);
+    expect(result.recommendedOrderParent1PaysParent2).toBeCloseTo(-10, 4);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { applyDerivativeBenefitsCredit } from "../src/socialsecurity";
+import { calculateCase } from "../src/calc";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs } from "../src/schema";
+
+describe("applyDerivativeBenefitsCredit", () => {
+  it("credits benefits without going below zero", () => {
+    expect(applyDerivativeBenefitsCredit("P2", 100, 250)).toMatchObject({ credit: 100, obligationAfter: 150 });
+    expect(applyDerivativeBenefitsCredit("P2", 300, 250)).toMatchObject({ credit: 250, obligationAfter: 0 });
+    expect(applyDerivativeBenefitsCredit("P2", 0, 250)).toBeNull();
+  });
+});
+
+describe("calculateCase with derivative benefits", () => {
+  const base = {
+    numChildrenThisCase: 2,
+    parent1: { actualMonthly: 900 },
+    parent2: { actualMonthly: 700, socialSecurityDerivativeBenefits: 100 },
+    addOns: {},
+  };
+
+  it("adds the benefits to income and credits them on Worksheet A line 8", () => {
+    const result = calculateCase(CaseInputs.parse({ ...base, custodyType: "PRIMARY" }), demoSchedule);
+    const w = result.worksheet;
+    expect(w.line2_p2AAI).toBe(800);
+    expect(w.line8_p2SocialSecurityCredit).toBe(100);
+    expect(w.line8_p2Recommended).toBeCloseTo(w.line6_p2Obligation - 100, 6);
+    expect(result.recommendedOrderParent1PaysParent2).toBeCloseTo(-(w.line6_p2Obligation - 100), 6);
+    expect(result.notes.some((n) => n.startsWith("Social Security derivative benefits of 100.00"))).toBe(true);
+  });
+
+  it("credits the benefits against Worksheet B line 15", () => {
+    const result = calculateCase(
+      CaseInputs.parse({ ...base, custodyType: "SHARED", overnightsParent1: 200 }),
+      demoSchedule
+    );
+    const w = result.worksheet;
+    expect(w.line15_p2SocialSecurityCredit).toBe(Math.min(100, w.line12_p2NetBasic));
+    expect(w.line15_p2NetBasic).toBeCloseTo(w.line12_p2NetBasic - w.line15_p2SocialSecurityCredit, 6);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { calculateCase } from "../src/calc";
+import { demoSchedule } from "../src/schedule";
+import { CaseInputs } from "../src/schema";
+import { netSplitObligations } from "../src/split";
+
+describe("netSplitObligations", () => {
+  it("puts the difference on the parent who owes more", () => {
+    expect(netSplitObligations(700, 400)).toEqual({ p1Owes: 700, p2Owes: 400, payor: "P1", amount: 300 });
+    expect(netSplitObligations(250, 250).payor).toBeNull();
+  });
+});
+
+describe("SPLIT custody", () => {
+  const raw = {
+    numChildrenThisCase: 3,
+    custodyType: "SPLIT",
+    childrenWithParent1: 1,
+    parent1: { actualMonthly: 3000 },
+    parent2: { actualMonthly: 2000 },
+    addOns: { childcare: 300 },
+    directPay: { parent1: { childcare: 300 }, parent2: {} },
+  };
+
+  it("runs Worksheet A per household and nets the two", () => {
+    const result = calculateCase(CaseInputs.parse(raw), demoSchedule);
+    expect(result.path).toBe("SplitWorksheetA");
+    expect(result.worksheet.household1_line4_basic).toBe(924);
+    expect(result.worksheet.household1_line4a_childcare).toBeCloseTo(100, 6);
+    expect(result.worksheet.household2_line4_basic).toBe(1356);
+    expect(result.worksheet.split_p2Obligation).toBeCloseTo(409.6, 6);
+    expect(result.worksheet.split_p1Obligation).toBeCloseTo(733.6, 6);
+    expect(result.payor).toBe("P1");
+    expect(result.recommendedOrderParent1PaysParent2).toBeCloseTo(324, 6);
+    expect(result.notes[0]).toMatch(/^Split custody: P2 owes 409\.60 for the 1 child living with P1/);
+  });
+
+  it("applies the self-support reserve to the netted amount", () => {
+    const result = calculateCase(
+      CaseInputs.parse({
+        ...raw,
+        parent1: { actualMonthly: 1500 },
+        parent2: { actualMonthly: 3000 },
+        addOns: {},
+        directPay: undefined,
+        selfSupportReserve: 2900,
+      }),
+      demoSchedule
+    );
+    expect(result.payor).toBe("P2");
+    expect(result.worksheet.split_p2Obligation).toBe(564);
+    expect(result.worksheet.split_p1Obligation).toBe(414);
+    expect(result.worksheet.split_p2ReserveReduction).toBeCloseTo(50, 6);
+    expect(result.recommendedOrderParent1PaysParent2).toBeCloseTo(-100, 6);
+  });
+
+  it("gives each household the costs given for its own children", () => {
+    const result = calculateCase(
+      CaseInputs.parse({
+        ...raw,
+        addOns: { uninsuredMedicalByChild: [{ amount: 1300, frequency: "ANNUAL" }] },
+        directPay: { parent1: { extraordinaryMedical: 100 }, parent2: {} },
+        childcare: {
+          paidBy: "P2",
+          arrangements: [{ child: 3, provider: "Daycare", hoursPerWeek: 10, hourlyRate: 12 }],
+        },
+      }),
+      demoSchedule
+    );
+    // Child 1 lives with P1 and has the medical costs; child 3 lives with P2
+    // and has the childcare.
+    expect(result.worksheet.household1_line4c_extraordinaryMedical).toBeCloseTo(100, 6);
+    expect(result.worksheet.household1_line4c_p1DirectPay).toBeCloseTo(100, 6);
+    expect(result.worksheet.household1_line4a_childcare).toBeUndefined();
+    expect(result.worksheet.household2_line4a_childcare).toBeCloseTo(520, 6);
+    expect(result.worksheet.household2_line4a_p2DirectPay).toBeCloseTo(520, 6);
+    expect(result.worksheet.household2_line4c_extraordinaryMedical).toBeUndefined();
+    expect(result.notes.find((n) => n.startsWith("Split custody"))).toMatch(
+      /by number of children, except childcare and extraordinary medical, which went with the child it was given for\.$/
+    );
+  });
+
+  it("needs at least one child with each parent", () => {
+    const parsed = CaseInputs.safeParse({ ...raw, childrenWithParent1: 3 });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["childrenWithParent1"]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { allocateAddOns } from "../src/addons";
+import { computeWorksheetC, worksheetCLines } from "../src/worksheetc";
+import type { DirectPay } from "../src/schema";
+
+const zero = {
+  childcare: 0,
+  healthInsurance: 0,
+  extraordinaryMedical: 0,
+  cashMedicalIVD: 0,
+  additionalExpenses: 0,
+};
+
+describe("computeWorksheetC", () => {
+  it("nets each parent's excess direct payments", () => {
+    const directPay: DirectPay = {
+      parent1: { ...zero, childcare: 120 },
+      parent2: { ...zero, healthInsurance: 30 },
+    };
+    const c = computeWorksheetC(allocateAddOns({ ...zero, childcare: 120, healthInsurance: 30 }, directPay, 0.5625));
+    expect(c.applies).toBe(true);
+    expect(c.p1TotalExcess).toBeCloseTo(52.5, 6);
+    expect(c.p2TotalExcess).toBeCloseTo(16.875, 6);
+    expect(c.owedBy).toBe("P2");
+    expect(c.netAdjustment).toBeCloseTo(35.625, 6);
+
+    const lines = worksheetCLines(c);
+    expect(lines.worksheetC_a_p1Share).toBeCloseTo(67.5, 6);
+    expect(lines.worksheetC_b_p1Excess).toBeCloseTo(52.5, 6);
+    expect(lines.worksheetC_d_p2Excess).toBeCloseTo(16.875, 6);
+    expect(lines.worksheetC_l_p2Net).toBeCloseTo(35.625, 6);
+    expect(lines.worksheetC_l_p1Net).toBe(0);
+  });
+
+  it("does not apply when expenses follow the income shares", () => {
+    const directPay: DirectPay = {
+      parent1: { ...zero, childcare: 60 },
+      parent2: { ...zero, childcare: 40 },
+    };
+    const c = computeWorksheetC(allocateAddOns({ ...zero, childcare: 100 }, directPay, 0.6));
+    expect(c.applies).toBe(false);
+    expect(c.owedBy).toBeNull();
+    expect(worksheetCLines(c)).toEqual({});
+  });
+
+  it("counts only the payments credited against each expense", () => {
+    const directPay: DirectPay = {
+      parent1: { ...zero, childcare: 300 },
+      parent2: zero,
+    };
+    const c = computeWorksheetC(allocateAddOns({ ...zero, childcare: 200 }, directPay, 0.5));
+    expect(c.p1TotalExcess).toBe(100);
+    expect(c.owedBy).toBe("P2");
+    expect(c.netAdjustment).toBe(100);
+  });
+});